@@ -0,0 +1,36 @@
+import { requireAdmin } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { getEmbeddingMigrator } from '@/lib/rag/ingestion'
+import { ConfigManager, loadConfigFromEnv } from '@/lib/rag/config'
+import { NextRequest } from 'next/server'
+
+// Makes a staged run's vectors live. Only allowed once the deployment embeds
+// queries with the run's model, so stored and query vectors always match.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin()
+    const { id } = await params
+
+    const config = new ConfigManager(loadConfigFromEnv()).get()
+    const migrator = getEmbeddingMigrator()
+
+    const migration = await migrator.get(id)
+    if (!migration) {
+      return errorResponse('Re-embedding run not found', 404)
+    }
+    if (migration.provider !== config.embeddings.provider || migration.target_model !== config.embeddings.model) {
+      return errorResponse(
+        `Queries are embedded with ${config.embeddings.provider}/${config.embeddings.model}; ` +
+          `switch EMBEDDING_PROVIDER and EMBEDDING_MODEL to ${migration.provider}/${migration.target_model} first`,
+        409
+      )
+    }
+
+    return successResponse(await migrator.promote(id))
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,80 @@
+import { requireAdmin } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { getEmbeddingMigrator } from '@/lib/rag/ingestion'
+import { ConfigManager, loadConfigFromEnv } from '@/lib/rag/config'
+import { createEmbeddingProvider } from '@/lib/rag/embeddings'
+import { NextRequest, after } from 'next/server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin()
+    const { id } = await params
+
+    const migration = await getEmbeddingMigrator().get(id)
+    if (!migration) {
+      return errorResponse('Re-embedding run not found', 404)
+    }
+
+    return successResponse(migration)
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+// Resumes a failed, cancelled or interrupted run from the chunks it has not
+// staged yet, as long as it still targets the configured model
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin()
+    const { id } = await params
+
+    const config = new ConfigManager(loadConfigFromEnv()).get()
+    const migrator = getEmbeddingMigrator()
+
+    const existing = await migrator.get(id)
+    if (!existing) {
+      return errorResponse('Re-embedding run not found', 404)
+    }
+    if (existing.provider !== config.embeddings.provider || existing.target_model !== config.embeddings.model) {
+      return errorResponse('Re-embedding run no longer targets the configured model', 409)
+    }
+
+    const migration = await migrator.resume(id)
+    const embeddings = createEmbeddingProvider(
+      migration.provider,
+      config.openai.apiKey,
+      migration.target_model,
+      migration.target_dimensions
+    )
+
+    after(() => migrator.run(migration, embeddings).catch(error => console.error('Re-embedding error:', error)))
+
+    return successResponse(migration, 202)
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin()
+    const { id } = await params
+
+    if (!(await getEmbeddingMigrator().cancel(id))) {
+      return errorResponse('Re-embedding run is not running', 409)
+    }
+
+    return successResponse({ id, status: 'cancelled' })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,54 @@
+import { requireAdmin } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { getEmbeddingMigrator } from '@/lib/rag/ingestion'
+import { ConfigManager, loadConfigFromEnv } from '@/lib/rag/config'
+import { createEmbeddingProvider } from '@/lib/rag/embeddings'
+import { NextRequest, after } from 'next/server'
+
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    return successResponse(await getEmbeddingMigrator().list())
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+// Starts re-embedding every paper, or `paperIds`, with the configured provider
+// and model. Queries always embed with those, so no other target is accepted;
+// the staged vectors go live with POST /api/admin/embeddings/:id/promote.
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const config = new ConfigManager(loadConfigFromEnv()).get()
+    const body = await request.json().catch(() => ({}))
+    const { provider = config.embeddings.provider, model = config.embeddings.model, paperIds } = body
+
+    if (provider !== config.embeddings.provider || model !== config.embeddings.model) {
+      return errorResponse(
+        `Re-embedding targets the configured model (${config.embeddings.provider}/${config.embeddings.model}); ` +
+          'switch EMBEDDING_PROVIDER and EMBEDDING_MODEL first',
+        400
+      )
+    }
+
+    if (paperIds !== undefined && (!Array.isArray(paperIds) || !paperIds.every(id => typeof id === 'string'))) {
+      return errorResponse('paperIds must be an array of paper IDs', 400)
+    }
+
+    // Staged vectors share the live column, so the size cannot change here
+    const dimensions = config.embeddings.dimensions
+
+    const migrator = getEmbeddingMigrator()
+    const migration = await migrator.create({ provider, model, dimensions }, paperIds)
+    const embeddings = createEmbeddingProvider(provider, config.openai.apiKey, model, dimensions)
+
+    after(() => migrator.run(migration, embeddings).catch(error => console.error('Re-embedding error:', error)))
+
+    return successResponse(migration, 202)
+  } catch (error) {
+    return handleError(error)
+  }
+}
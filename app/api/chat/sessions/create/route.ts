@@ -10,27 +10,33 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = CreateSessionSchema.parse(body)
 
+    const paperIds = [...new Set([
+      ...(validatedData.paperId ? [validatedData.paperId] : []),
+      ...(validatedData.paperIds || []),
+    ])]
+
     const supabase = await createServerClientSSR()
 
-    // Verify paper belongs to user
-    const { data: paper, error: paperError } = await supabase
+    // Verify papers belong to user
+    const { data: papers, error: paperError } = await supabase
       .from('papers')
       .select('id, title')
-      .eq('id', validatedData.paperId)
+      .in('id', paperIds)
       .eq('user_id', user.id)
-      .single()
 
-    if (paperError || !paper) {
+    if (paperError || !papers || papers.length !== paperIds.length) {
       return errorResponse('Paper not found', 404)
     }
 
-    // Create chat session
+    const primaryPaper = (papers as any[]).find(paper => paper.id === paperIds[0])
+
+    // Create chat session; the first paper stays the primary paper_id
     const { data: session, error: sessionError } = await supabase
       .from('chat_sessions')
       .insert({
         user_id: user.id,
-        paper_id: validatedData.paperId,
-        title: validatedData.title || `Chat about ${(paper as any).title}`,
+        paper_id: paperIds[0],
+        title: validatedData.title || `Chat about ${primaryPaper?.title}`,
       } as any)
       .select()
       .single()
@@ -39,8 +45,20 @@ export async function POST(request: NextRequest) {
       throw sessionError
     }
 
-    return successResponse(session, 201)
+    // The primary paper is already attached by the chat_sessions insert trigger
+    const { error: attachError } = await supabase
+      .from('chat_session_papers')
+      .upsert(paperIds.map(paperId => ({
+        session_id: (session as any).id,
+        paper_id: paperId,
+      })) as any, { onConflict: 'session_id,paper_id', ignoreDuplicates: true })
+
+    if (attachError) {
+      throw attachError
+    }
+
+    return successResponse({ ...(session as any), paper_ids: paperIds }, 201)
   } catch (error) {
     return handleError(error)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import { createServerClientSSR } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { buildSectionTree } from '@/lib/rag/outline'
+import { NextRequest } from 'next/server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const supabase = await createServerClientSSR()
+
+    const { data: paper } = await supabase
+      .from('papers')
+      .select('id, current_version_id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    // Not ingested yet
+    if (!paper.current_version_id) {
+      return successResponse({ paperId: id, sections: [] })
+    }
+
+    const { data: sections, error } = await supabase
+      .from('paper_sections')
+      .select('id, parent_section_id, level, number, title, page_no')
+      .eq('paper_id', id)
+      .eq('version_id', paper.current_version_id)
+      .order('position', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    return successResponse({
+      paperId: id,
+      sections: buildSectionTree(sections || []),
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,121 @@
+import { createServerClientSSR } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { getIngestionProcessor, getProcessingQueue } from '@/lib/rag/ingestion'
+import { listPaperVersions } from '@/lib/rag/versions'
+import { NextRequest, after } from 'next/server'
+
+async function findOwnPaper(id: string, userId: string) {
+  const supabase = await createServerClientSSR()
+
+  const { data: paper } = await supabase
+    .from('papers')
+    .select('id, processing_status, processing_error, storage_path, current_version_id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single()
+
+  return paper
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const paper = await findOwnPaper(id, user.id)
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    const [job, progress] = await Promise.all([
+      getProcessingQueue().latestJob(id),
+      getIngestionProcessor().getProcessingStatus(id)
+    ])
+
+    return successResponse({
+      paperId: id,
+      status: paper.processing_status,
+      error: paper.processing_error,
+      processedChunks: progress?.processed_chunks ?? 0,
+      totalChunks: progress?.total_chunks ?? 0,
+      embeddingCache: {
+        hits: progress?.embedding_cache_hits ?? 0,
+        misses: progress?.embedding_cache_misses ?? 0
+      },
+      job: job && {
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.max_attempts,
+        nextAttemptAt: job.status === 'queued' ? job.run_at : null,
+        lastError: job.last_error
+      }
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+// Queues the paper again, e.g. after a failure or to pick up new chunking
+// settings. A replacement file that has not been ingested yet is retried
+// instead of the current version.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const paper = await findOwnPaper(id, user.id)
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    const supabase = await createServerClientSSR()
+    const versions = await listPaperVersions(supabase, id)
+    const latest = versions[versions.length - 1]
+    const pending = latest && latest.id !== paper.current_version_id && latest.storage_path ? latest : null
+    const storagePath = pending ? pending.storage_path : paper.storage_path
+
+    if (!storagePath) {
+      return errorResponse('Paper has no stored file to process', 400)
+    }
+
+    const queue = getProcessingQueue()
+    const job = await queue.enqueue(id, storagePath.split('.').pop() || 'pdf', pending?.id ?? null)
+    after(() => queue.drain().catch(error => console.error('Processing queue error:', error)))
+
+    return successResponse({ paperId: id, jobId: job.id, status: job.status }, 202)
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const paper = await findOwnPaper(id, user.id)
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    const job = await getProcessingQueue().cancel(id)
+    if (!job) {
+      return errorResponse('Paper is not being processed', 409)
+    }
+
+    return successResponse({ paperId: id, jobId: job.id, status: 'cancelled' })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -2,7 +2,13 @@ import { createServerClientSSR } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { requireAuth } from '@/lib/utils/auth'
 import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
-import { NextRequest } from 'next/server'
+import { getProcessingQueue } from '@/lib/rag/ingestion'
+import { createPaperVersion, listPaperVersions } from '@/lib/rag/versions'
+import { DOCUMENT_TYPE_LIST, contentTypeOf, documentTypeOf } from '@/lib/rag/document_types'
+import { PDFService } from '@/lib/services/pdf.service'
+import { StorageService } from '@/lib/services/storage.service'
+import { validateFileName } from '@/lib/validation'
+import { NextRequest, after } from 'next/server'
 
 export async function GET(
   request: NextRequest,
@@ -34,6 +40,85 @@ export async function GET(
   }
 }
 
+// Replaces the paper's file with a new version (multipart `file`). The new
+// version is ingested in the background; until it is ready, chat keeps
+// answering from the current one, and sessions and old citations survive.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const supabase = await createServerClientSSR()
+
+    const { data: paper } = await supabase
+      .from('papers')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    if (!file) {
+      return errorResponse('Missing file', 400)
+    }
+
+    if (!validateFileName(file.name)) {
+      return errorResponse('Invalid file name', 400)
+    }
+
+    const documentType = documentTypeOf(file.name, file.type)
+    if (!documentType) {
+      return errorResponse(`Unsupported file type; allowed: ${DOCUMENT_TYPE_LIST.join(', ')}`, 400)
+    }
+
+    const queue = getProcessingQueue()
+    const active = await queue.latestJob(id)
+    if (active && (active.status === 'queued' || active.status === 'running')) {
+      return errorResponse('Paper is still being processed', 409)
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    StorageService.validateFile(buffer, contentTypeOf(documentType))
+    const storedBuffer = documentType === 'pdf' ? await PDFService.sanitizePDF(buffer) : buffer
+
+    // A version may change format; the stored file keeps its own extension
+    const { path } = await StorageService.uploadFile(storedBuffer, {
+      bucket: 'papers',
+      path: user.id,
+      contentType: contentTypeOf(documentType)
+    })
+
+    const adminClient = createAdminClient()
+    let version
+    try {
+      version = await createPaperVersion(adminClient, id, path)
+    } catch (error) {
+      await StorageService.deleteFile('papers', path).catch(() => undefined)
+      throw error
+    }
+
+    const job = await queue.enqueue(id, documentType, version.id)
+    after(() => queue.drain().catch(error => console.error('Processing queue error:', error)))
+
+    return successResponse({
+      paperId: id,
+      versionId: version.id,
+      versionNumber: version.version_number,
+      jobId: job.id,
+      status: job.status
+    }, 202)
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -60,11 +145,16 @@ export async function DELETE(
       return errorResponse('Paper not found', 404)
     }
 
-    // Delete from storage if file exists
-    if ((paper as any).storage_path) {
+    // Delete the file of every version from storage
+    const versions = await listPaperVersions(adminClient, id)
+    const storagePaths = [...new Set(
+      [(paper as any).storage_path, ...versions.map(version => version.storage_path)].filter(Boolean)
+    )]
+
+    if (storagePaths.length > 0) {
       const { error: storageError } = await adminClient.storage
         .from('papers')
-        .remove([(paper as any).storage_path])
+        .remove(storagePaths)
 
       if (storageError) {
         console.error('Storage deletion error:', storageError)
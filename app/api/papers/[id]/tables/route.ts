@@ -0,0 +1,86 @@
+import { createServerClientSSR } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { tableToCSV, tablesToCSV } from '@/lib/utils/export-tables'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Tables detected in the paper's current version, as JSON (default) or CSV
+// (`?format=csv`). `?table=` picks one table by ID or by number in reading
+// order, starting at 1.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const supabase = await createServerClientSSR()
+
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get('format') || 'json'
+    const selected = searchParams.get('table')
+
+    if (!['json', 'csv'].includes(format)) {
+      return errorResponse('format must be "json" or "csv"', 400)
+    }
+
+    const { data: paper } = await supabase
+      .from('papers')
+      .select('id, current_version_id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    let tables: any[] = []
+    // Not ingested yet
+    if (paper.current_version_id) {
+      const { data, error } = await supabase
+        .from('paper_tables')
+        .select('id, position, page_no, label, caption, columns, rows')
+        .eq('paper_id', id)
+        .eq('version_id', paper.current_version_id)
+        .order('position', { ascending: true })
+
+      if (error) {
+        throw error
+      }
+      tables = data || []
+    }
+
+    if (selected) {
+      tables = tables.filter(table => table.id === selected || table.position + 1 === Number(selected))
+      if (tables.length === 0) {
+        return errorResponse('Table not found', 404)
+      }
+    }
+
+    if (format === 'csv') {
+      const fileName = selected ? `table_${tables[0].position + 1}.csv` : 'tables.csv'
+      return new NextResponse(selected ? tableToCSV(tables[0]) : tablesToCSV(tables), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      })
+    }
+
+    return successResponse({
+      paperId: id,
+      tables: tables.map(table => ({
+        id: table.id,
+        number: table.position + 1,
+        label: table.label,
+        caption: table.caption,
+        page: table.page_no,
+        columns: table.columns,
+        rows: table.rows,
+      }))
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,52 @@
+import { createServerClientSSR } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { getIngestionProcessor } from '@/lib/rag/ingestion'
+import { documentTypeOfPath } from '@/lib/rag/document_types'
+import { NextRequest } from 'next/server'
+
+// Text of the paper's current file, page by page (chapter by chapter for
+// EPUBs), as ingestion read it. Previews documents the PDF viewer cannot show;
+// citation spans point into these pages.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const supabase = await createServerClientSSR()
+
+    const { data: paper } = await supabase
+      .from('papers')
+      .select('id, storage_path')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    if (!paper.storage_path) {
+      return errorResponse('Paper has no stored file', 404)
+    }
+
+    const { data: file, error } = await supabase.storage
+      .from('papers')
+      .download(paper.storage_path)
+
+    if (error || !file) {
+      return errorResponse('Paper file not found in storage', 404)
+    }
+
+    const type = documentTypeOfPath(paper.storage_path)
+    const pages = await getIngestionProcessor().extractPages(Buffer.from(await file.arrayBuffer()), type)
+
+    return successResponse({ paperId: id, type, pages })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export const runtime = 'nodejs'
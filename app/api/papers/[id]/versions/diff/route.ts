@@ -0,0 +1,54 @@
+import { createServerClientSSR } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { diffPaperVersions, listPaperVersions } from '@/lib/rag/versions'
+import { NextRequest } from 'next/server'
+
+// Sections added, removed or changed between two versions, by version number.
+// Defaults to the version before the current one against the current one.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const supabase = await createServerClientSSR()
+
+    const { data: paper } = await supabase
+      .from('papers')
+      .select('id, current_version_id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    const versions = await listPaperVersions(supabase, id)
+    const current = versions.find(version => version.id === paper.current_version_id)
+
+    const searchParams = request.nextUrl.searchParams
+    const toNumber = Number(searchParams.get('to') ?? current?.version_number)
+    const fromNumber = Number(searchParams.get('from') ?? toNumber - 1)
+
+    const from = versions.find(version => version.version_number === fromNumber)
+    const to = versions.find(version => version.version_number === toNumber)
+
+    if (!from || !to) {
+      return errorResponse('Paper version not found', 404)
+    }
+
+    const sections = await diffPaperVersions(supabase, from.id, to.id)
+
+    return successResponse({
+      paperId: id,
+      from: from.version_number,
+      to: to.version_number,
+      sections
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
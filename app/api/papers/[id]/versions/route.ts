@@ -0,0 +1,45 @@
+import { createServerClientSSR } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { listPaperVersions } from '@/lib/rag/versions'
+import { NextRequest } from 'next/server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const supabase = await createServerClientSSR()
+
+    const { data: paper } = await supabase
+      .from('papers')
+      .select('id, current_version_id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!paper) {
+      return errorResponse('Paper not found', 404)
+    }
+
+    const versions = await listPaperVersions(supabase, id)
+
+    return successResponse({
+      paperId: id,
+      currentVersionId: paper.current_version_id,
+      versions: versions.map(version => ({
+        id: version.id,
+        versionNumber: version.version_number,
+        pageCount: version.page_count,
+        status: version.processing_status,
+        error: version.processing_error,
+        createdAt: version.created_at,
+        current: version.id === paper.current_version_id
+      }))
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
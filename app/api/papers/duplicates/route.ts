@@ -0,0 +1,54 @@
+import { createServerClientSSR } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/utils/auth'
+import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
+import { getIngestionProcessor } from '@/lib/rag/ingestion'
+import { findDuplicatePapers, PaperFingerprint } from '@/lib/rag/fingerprint'
+import { contentTypeOf, documentTypeOf } from '@/lib/rag/document_types'
+import { StorageService } from '@/lib/services/storage.service'
+import { NextRequest } from 'next/server'
+
+// Checks a file (multipart `file`) or a URL (JSON `{ url }`) against the
+// user's library before it is uploaded, so the client can offer the existing
+// paper instead
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    let fingerprint: PaperFingerprint | undefined
+    let sourceUrl: string | undefined
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file') as File | null
+      if (!file) {
+        return errorResponse('Missing file', 400)
+      }
+
+      const documentType = documentTypeOf(file.name, file.type)
+      if (!documentType) {
+        return errorResponse('Unsupported file type', 400)
+      }
+
+      // Fingerprinting parses the whole file; hold it to the upload limits first
+      StorageService.validateFile(file, contentTypeOf(documentType))
+
+      const buffer = Buffer.from(await file.arrayBuffer())
+      fingerprint = await getIngestionProcessor().fingerprint(buffer, documentType)
+    } else {
+      const { url } = await request.json()
+      if (typeof url !== 'string' || !url.trim()) {
+        return errorResponse('Missing url', 400)
+      }
+      sourceUrl = url
+    }
+
+    const supabase = await createServerClientSSR()
+    const matches = await findDuplicatePapers(supabase, user.id, { fingerprint, sourceUrl })
+
+    return successResponse({ matches })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export const runtime = 'nodejs'
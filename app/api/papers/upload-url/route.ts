@@ -1,5 +1,6 @@
-import { NextRequest } from 'next/server'
+import { NextRequest, after } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { getProcessingQueue } from '@/lib/rag/ingestion'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -108,10 +109,6 @@ export async function POST(request: NextRequest) {
       return Response.json({ error: 'Downloaded file is not a valid PDF' }, { status: 400 })
     }
 
-    // Create a File object from the buffer
-    const blob = new Blob([buffer], { type: 'application/pdf' })
-    const file = new File([blob], 'url-upload.pdf', { type: 'application/pdf' })
-
     // Upload PDF to storage for preview
     const storagePath = `${userId}/${paperId}.pdf`
     console.log('Uploading PDF to storage:', storagePath)
@@ -124,42 +121,33 @@ export async function POST(request: NextRequest) {
         upsert: true,
       })
 
+    // The processing worker reads the file from storage, so without it the
+    // paper cannot be processed
     if (uploadError) {
       console.error('Storage upload FAILED:', uploadError)
-    } else {
-      console.log('Storage upload SUCCESS:', uploadData)
-      const { error: updateError } = await supabase
-        .from('papers')
-        .update({ storage_path: storagePath })
-        .eq('id', paperId)
-
-      if (updateError) {
-        console.error('Failed to update storage_path:', updateError)
-      } else {
-        console.log('storage_path updated successfully')
-      }
+      await updateProcessingStatus(paperId, 'failed', 'Failed to store PDF')
+      return Response.json({ error: 'Failed to store PDF' }, { status: 500 })
     }
 
-    // Process PDF using the RAG endpoint
-    const formData = new FormData()
-    formData.append('file', file)
-    formData.append('paper_id', paperId)
-    formData.append('user_id', userId)
-
-    const processResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/rag/process`, {
-      method: 'POST',
-      body: formData,
-    })
+    console.log('Storage upload SUCCESS:', uploadData)
+    const { error: updateError } = await supabase
+      .from('papers')
+      .update({ storage_path: storagePath })
+      .eq('id', paperId)
 
-    if (!processResponse.ok) {
-      const errorData = await processResponse.json()
-      // RAG process endpoint already updates the status to failed
-      return Response.json({ error: `Processing failed: ${errorData.error || 'Unknown error'}` }, { status: 500 })
+    if (updateError) {
+      console.error('Failed to update storage_path:', updateError)
+    } else {
+      console.log('storage_path updated successfully')
     }
 
-    const processResult = await processResponse.json()
+    const queue = getProcessingQueue()
+    const job = await queue.enqueue(paperId, 'pdf')
+
+    // Start on the queue right away; the job survives if this is cut short
+    after(() => queue.drain().catch(error => console.error('Processing queue error:', error)))
 
-    return Response.json({ success: true, result: processResult }, { status: 200 })
+    return Response.json({ success: true, paperId, jobId: job.id }, { status: 202 })
 
   } catch (error: any) {
     console.error('Upload URL error:', error)
@@ -1,11 +1,13 @@
 import { createServerClientSSR } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/utils/auth'
 import { successResponse, errorResponse, handleError } from '@/lib/utils/api-response'
-import { NextRequest } from 'next/server'
+import { NextRequest, after } from 'next/server'
 import { PDFService } from '@/lib/services/pdf.service'
+import { getProcessingQueue } from '@/lib/rag/ingestion'
 import { StorageService } from '@/lib/services/storage.service'
 import { DatabaseService } from '@/lib/db'
 import { validateFileName, InputSanitizer } from '@/lib/validation'
+import { DOCUMENT_TYPE_LIST, DocumentType, contentTypeOf, documentTypeOf } from '@/lib/rag/document_types'
 import { createRequestLogger } from '@/lib/logger'
 import { z } from 'zod'
 
@@ -41,9 +43,9 @@ export async function POST(request: NextRequest) {
     const supabase = await createServerClientSSR()
 
     let storagePath: string | null = null
+    let documentType: DocumentType = 'pdf'
     let pageCount = 0
     let pdfMetadata: any = null
-    let chunks: any[] = []
 
     if (validatedData.source === 'upload' && file) {
       // Validate file
@@ -52,27 +54,36 @@ export async function POST(request: NextRequest) {
         return errorResponse('Invalid file name', 400)
       }
 
-      if (file.type !== 'application/pdf') {
-        return errorResponse('Only PDF files are allowed', 400)
+      const type = documentTypeOf(file.name, file.type)
+      if (!type) {
+        return errorResponse(`Unsupported file type; allowed: ${DOCUMENT_TYPE_LIST.join(', ')}`, 400)
       }
+      documentType = type
 
       // Convert to buffer
       const buffer = Buffer.from(await file.arrayBuffer())
 
-      // Validate and sanitize PDF
-      StorageService.validateFile(buffer, file.type)
-      const sanitizedBuffer = await PDFService.sanitizePDF(buffer)
+      // Browsers send no or generic MIME types for some formats, so the file
+      // is validated and stored under the type its extension names
+      StorageService.validateFile(buffer, contentTypeOf(documentType))
 
-      // Extract PDF metadata and chunks
-      pdfMetadata = await PDFService.extractMetadata(sanitizedBuffer)
-      pageCount = pdfMetadata.pageCount
-      chunks = pdfMetadata.chunks
+      let storedBuffer: Buffer = buffer
+      if (documentType === 'pdf') {
+        storedBuffer = await PDFService.sanitizePDF(buffer)
+
+        // Extract PDF metadata; chunking happens after the paper row exists
+        pdfMetadata = await PDFService.extractMetadata(storedBuffer)
+        pageCount = pdfMetadata.pageCount
+      } else {
+        // Ingestion records the real count (chapters for EPUBs)
+        pageCount = 1
+      }
 
       // Upload to storage
-      const { path } = await StorageService.uploadFile(sanitizedBuffer, {
+      const { path } = await StorageService.uploadFile(storedBuffer, {
         bucket: 'papers',
         path: user.id,
-        contentType: 'application/pdf'
+        contentType: contentTypeOf(documentType)
       })
 
       storagePath = path
@@ -80,10 +91,10 @@ export async function POST(request: NextRequest) {
       logger.info({
         userId: user.id,
         fileName: file.name,
+        documentType,
         pageCount,
-        chunksCreated: chunks.length,
         storagePath
-      }, 'PDF processed and uploaded')
+      }, 'Document processed and uploaded')
 
     } else if (validatedData.source === 'url' && validatedData.url) {
       // For URL-based papers, we'll fetch and process later
@@ -117,27 +128,22 @@ export async function POST(request: NextRequest) {
         throw dbError
       }
 
-      // Store chunks if available
-      if (chunks.length > 0) {
-        const chunkRecords = chunks.map(chunk => ({
-          paper_id: (paper as any).id,
-          page_no: chunk.pageNumber,
-          content: chunk.content,
-          // Embeddings will be generated when RAG is implemented
-          embedding: null
-        }))
-
-        await DatabaseService.batchInsert('paper_chunks', chunkRecords)
-
-        logger.info({
-          paperId: (paper as any).id,
-          chunksStored: chunkRecords.length
-        }, 'Paper chunks stored')
-      }
-
       return paper
     })
 
+    // Chunking and embedding run on the processing queue, reading the file
+    // back from storage
+    if (storagePath) {
+      const queue = getProcessingQueue()
+      const job = await queue.enqueue((result as any).id, documentType)
+      after(() => queue.drain().catch(error => logger.error({ error }, 'Processing queue error')))
+
+      logger.info({
+        paperId: (result as any).id,
+        jobId: job.id
+      }, 'Paper queued for processing')
+    }
+
     // Record metrics
     await fetch('/api/metrics', {
       method: 'POST',
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RAGAgent } from '@/lib/rag/rag_agent';
+import { ConfigManager, loadConfigFromEnv } from '@/lib/rag/config';
+import { createChatModelRegistry } from '@/lib/rag/chat_models';
+import { comparisonToMarkdown, comparisonToCSV } from '@/lib/utils/export-comparison';
+
+const configManager = new ConfigManager(loadConfigFromEnv());
+const config = configManager.get();
+const chatModels = createChatModelRegistry(config);
+
+const ragAgent = new RAGAgent({
+  openaiApiKey: config.openai.apiKey,
+  supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  chromaUrl: config.vectorStore.chromaUrl,
+  vectorStoreType: config.vectorStore.type,
+  modelName: config.openai.model,
+  chatModels,
+  embeddingProvider: config.embeddings.provider,
+  embeddingModel: config.embeddings.model,
+  embeddingDimensions: config.embeddings.dimensions,
+  chunkSize: config.chunking.chunkSize,
+  chunkOverlap: config.chunking.chunkOverlap,
+  parentChunkSize: config.chunking.parentChunkSize,
+  semanticChunking: config.chunking.semanticChunking,
+  minChunkSize: config.chunking.minChunkSize,
+  maxChunkSize: config.chunking.maxChunkSize,
+});
+
+const MAX_COMPARED_PAPERS = 10;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, paperIds, format = 'json' } = body;
+
+    if (!userId || !Array.isArray(paperIds)) {
+      return NextResponse.json(
+        { error: 'userId and paperIds are required' },
+        { status: 400 }
+      );
+    }
+
+    const uniquePaperIds = [...new Set<string>(paperIds)];
+    if (uniquePaperIds.length < 2 || uniquePaperIds.length > MAX_COMPARED_PAPERS) {
+      return NextResponse.json(
+        { error: `Select between 2 and ${MAX_COMPARED_PAPERS} papers to compare` },
+        { status: 400 }
+      );
+    }
+
+    if (!['json', 'markdown', 'csv'].includes(format)) {
+      return NextResponse.json(
+        { error: 'format must be one of "json", "markdown" or "csv"' },
+        { status: 400 }
+      );
+    }
+
+    const ownedPaperIds = await ragAgent.resolveLibraryPaperIds(userId, uniquePaperIds);
+    if (ownedPaperIds.length !== uniquePaperIds.length) {
+      return NextResponse.json(
+        { error: 'One or more papers were not found' },
+        { status: 404 }
+      );
+    }
+
+    const comparison = await ragAgent.comparePapers(uniquePaperIds, userId);
+
+    if (format === 'markdown') {
+      return new NextResponse(comparisonToMarkdown(comparison), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="paper_comparison.md"',
+        },
+      });
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(comparisonToCSV(comparison), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="paper_comparison.csv"',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      comparison,
+    });
+  } catch (error: any) {
+    console.error('Comparison error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare papers', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
-import { PDFService } from '@/lib/services/pdf.service';
+import { getProcessingQueue } from '@/lib/rag/ingestion';
+import { DOCUMENT_TYPES, contentTypeOf, documentTypeOf, documentTypeOfPath } from '@/lib/rag/document_types';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-const embeddings = new OpenAIEmbeddings({
-  openAIApiKey: process.env.OPENAI_API_KEY!,
-  modelName: 'text-embedding-3-small',
-});
-
-const textSplitter = new RecursiveCharacterTextSplitter({
-  chunkSize: 1000,
-  chunkOverlap: 200,
-});
-
 export async function POST(request: NextRequest) {
-  let paperId: string | undefined;
-
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
-    paperId = formData.get('paper_id') as string;
+    const paperId = formData.get('paper_id') as string;
     const userId = formData.get('user_id') as string;
 
     if (!file || !paperId || !userId) {
@@ -35,130 +22,70 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update processing status on papers table
-    await supabase
+    const { data: paper } = await supabase
       .from('papers')
-      .update({ processing_status: 'processing' })
-      .eq('id', paperId);
-
-    // Process PDF content for embedding
-    console.log('Processing PDF file...');
-    const buffer = Buffer.from(await file.arrayBuffer());
-
-    // Validate and extract PDF content
-    const pdfMetadata = await PDFService.extractMetadata(buffer);
-    console.log(`Extracted text from PDF: ${pdfMetadata.textContent.length} characters`);
-
-    // Clean content to avoid Unicode issues
-    const fileContent = pdfMetadata.textContent
-      .replace(/[\u0000-\u001F\u007F-\u009F]/g, '') // Remove control characters
-      .replace(/\\/g, '\\\\') // Escape backslashes
-      .replace(/"/g, '\\"'); // Escape quotes
-
-    // Split the content into chunks
-    const chunks = await textSplitter.createDocuments([fileContent]);
-
-    // Generate embeddings and store chunks instantly
-    console.log(`Processing ${chunks.length} chunks...`);
-    const chunkData = await Promise.all(
-      chunks.map(async (chunk, index) => {
-        const embedding = await embeddings.embedQuery(chunk.pageContent);
-        const pageNo = Math.floor(index / 5) + 1; // Estimate page numbers
-
-        // Clean the chunk content for database insertion
-        const cleanContent = chunk.pageContent
-          .slice(0, 2000)
-          .replace(/[\u0000-\u001F\u007F-\u009F]/g, '') // Remove control characters
-          .replace(/\\/g, '\\\\') // Escape backslashes
-          .replace(/'/g, "''") // Escape single quotes for SQL
-          .replace(/"/g, '\\"'); // Escape double quotes
-
-        return {
-          paper_id: paperId,
-          page_no: pageNo,
-          content: cleanContent,
-          embedding,
-          metadata: {
-            chunk_index: index,
-            chunk_type: 'body',
-          },
-        };
-      })
-    );
-
-    // Insert chunks into database
-    console.log(`Inserting ${chunkData.length} chunks into database...`);
-    const chunksToInsert = chunkData.map(({ metadata: _metadata, ...chunk }) => chunk);
-
-    console.log('DEBUG: Sample chunk to insert:', chunksToInsert[0]);
-    console.log('DEBUG: Total chunks to insert:', chunksToInsert.length);
+      .select('storage_path')
+      .eq('id', paperId)
+      .single();
 
-    const { data: insertedChunks, error: chunkError } = await supabase
-      .from('paper_chunks')
-      .insert(chunksToInsert)
-      .select();
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      );
+    }
 
-    console.log('DEBUG: Insert result - data:', insertedChunks?.length || 0, 'error:', chunkError);
+    const documentType = paper.storage_path
+      ? documentTypeOfPath(paper.storage_path)
+      : documentTypeOf(file.name, file.type);
 
-    if (chunkError) {
-      console.error('DEBUG: Chunk insertion error details:', chunkError);
-      throw new Error(`Failed to insert chunks: ${chunkError.message}`);
+    if (!documentType) {
+      return NextResponse.json(
+        { error: 'Unsupported file type' },
+        { status: 400 }
+      );
     }
 
-    console.log('DEBUG: Successfully inserted chunks:', insertedChunks?.length || 0);
-
-    // Store metadata
-    if (insertedChunks && insertedChunks.length > 0) {
-      const metadataInserts = insertedChunks.map((chunk: any, index: number) => ({
-        chunk_id: chunk.id,
-        chunk_index: index,
-        chunk_type: 'body',
-        keyword_count: 0,
-        has_equations: false,
-        has_citations: false,
-      }));
+    // The worker reads the file from storage; store it here if the client's
+    // own upload did not get through
+    if (!paper.storage_path) {
+      const storagePath = `${userId}/${paperId}${DOCUMENT_TYPES[documentType].extensions[0]}`;
+      const { error: uploadError } = await supabase.storage
+        .from('papers')
+        .upload(storagePath, Buffer.from(await file.arrayBuffer()), {
+          cacheControl: '3600',
+          contentType: contentTypeOf(documentType),
+          upsert: true,
+        });
+
+      if (uploadError) {
+        return NextResponse.json(
+          { error: 'Failed to store document', details: uploadError.message },
+          { status: 500 }
+        );
+      }
 
-      await supabase.from('paper_chunks_metadata').insert(metadataInserts);
+      await supabase
+        .from('papers')
+        .update({ storage_path: storagePath })
+        .eq('id', paperId);
     }
 
-    // Update processing status and page count on papers table
-    console.log('Updating paper with page_count:', pdfMetadata.pageCount);
-    const { error: updateError } = await supabase
-      .from('papers')
-      .update({
-        processing_status: 'completed',
-        processing_error: null,
-        page_count: pdfMetadata.pageCount || 1
-      })
-      .eq('id', paperId);
-
-    if (updateError) {
-      console.error('Failed to update paper:', updateError);
-    } else {
-      console.log('Paper updated successfully with page_count:', pdfMetadata.pageCount);
-    }
+    const queue = getProcessingQueue();
+    const job = await queue.enqueue(paperId, documentType);
+
+    // Start on the queue right away; the job survives if this is cut short
+    after(() => queue.drain().catch(error => console.error('Processing queue error:', error)));
 
     return NextResponse.json({
       success: true,
       paperId: paperId,
-      chunksCreated: chunks.length,
-      message: `Successfully processed ${chunks.length} chunks`,
-    });
+      jobId: job.id,
+      message: 'Document queued for processing',
+    }, { status: 202 });
 
   } catch (error: any) {
     console.error('Document processing error:', error);
-
-    // Update status to failed if we have paperId
-    if (paperId) {
-      await supabase
-        .from('papers')
-        .update({
-          processing_status: 'failed',
-          processing_error: error.message
-        })
-        .eq('id', paperId);
-    }
-
     return NextResponse.json(
       { error: 'Failed to process document', details: error.message },
       { status: 500 }
@@ -166,7 +93,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -181,14 +107,18 @@ export async function GET(request: NextRequest) {
 
     const { data: paper } = await supabase
       .from('papers')
-      .select('processing_status, processing_error')
+      .select('processing_status, processing_error, current_version_id')
       .eq('id', paperId)
       .single();
 
-    const { count } = await supabase
-      .from('paper_chunks')
-      .select('*', { count: 'exact', head: true })
-      .eq('paper_id', paperId);
+    // Chunks of the version retrieval searches
+    const { count } = paper?.current_version_id
+      ? await supabase
+          .from('paper_chunks')
+          .select('*', { count: 'exact', head: true })
+          .eq('paper_id', paperId)
+          .eq('version_id', paper.current_version_id)
+      : { count: 0 };
 
     return NextResponse.json({
       success: true,
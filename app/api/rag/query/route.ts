@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { RAGAgent } from '@/lib/rag/rag_agent';
 import { ConfigManager, loadConfigFromEnv } from '@/lib/rag/config';
+import { createChatModelRegistry } from '@/lib/rag/chat_models';
+import { MAX_QUERY_VARIANTS } from '@/lib/rag/constants';
+import { CHUNK_TYPES, isChunkType } from '@/lib/rag/sections';
 
 const configManager = new ConfigManager(loadConfigFromEnv());
 const config = configManager.get();
+const chatModels = createChatModelRegistry(config);
 
 const ragAgent = new RAGAgent({
   openaiApiKey: config.openai.apiKey,
@@ -12,8 +16,22 @@ const ragAgent = new RAGAgent({
   chromaUrl: config.vectorStore.chromaUrl,
   vectorStoreType: config.vectorStore.type,
   modelName: config.openai.model,
+  chatModels,
+  embeddingProvider: config.embeddings.provider,
+  embeddingModel: config.embeddings.model,
+  embeddingDimensions: config.embeddings.dimensions,
   chunkSize: config.chunking.chunkSize,
   chunkOverlap: config.chunking.chunkOverlap,
+  parentChunkSize: config.chunking.parentChunkSize,
+  semanticChunking: config.chunking.semanticChunking,
+  minChunkSize: config.chunking.minChunkSize,
+  maxChunkSize: config.chunking.maxChunkSize,
+  rerankingEnabled: config.retrieval.rerankingEnabled,
+  rerankerType: config.retrieval.rerankerType,
+  rerankCandidates: config.retrieval.rerankCandidates,
+  queryRewritingEnabled: config.retrieval.queryRewriting,
+  referencesWeight: config.retrieval.referencesWeight,
+  parentDocumentRetrieval: config.retrieval.parentDocumentRetrieval,
 });
 
 export async function POST(request: NextRequest) {
@@ -24,8 +42,12 @@ export async function POST(request: NextRequest) {
       userId,
       sessionId,
       paperId,
+      scope = 'paper',
+      paperIds,
       retrievalOptions = {},
       stream = false,
+      provider,
+      model,
     } = body;
 
     if (!question || !userId) {
@@ -35,10 +57,107 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!['paper', 'library'].includes(scope)) {
+      return NextResponse.json(
+        { error: 'scope must be either "paper" or "library"' },
+        { status: 400 }
+      );
+    }
+
+    if (paperIds !== undefined && !Array.isArray(paperIds)) {
+      return NextResponse.json(
+        { error: 'paperIds must be an array of paper IDs' },
+        { status: 400 }
+      );
+    }
+
+    if (provider !== undefined && !chatModels.has(provider)) {
+      return NextResponse.json(
+        { error: `provider must be one of: ${chatModels.available().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+      return NextResponse.json(
+        { error: 'model must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    let libraryPaperIds: string[] | undefined;
+    if (scope === 'library') {
+      libraryPaperIds = await ragAgent.resolveLibraryPaperIds(userId, paperIds);
+
+      if (libraryPaperIds.length === 0) {
+        return NextResponse.json(
+          { error: 'No papers found in your library for this query' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const hybridAlpha = retrievalOptions.hybridAlpha ?? config.retrieval.hybridAlpha;
+    if (typeof hybridAlpha !== 'number' || hybridAlpha < 0 || hybridAlpha > 1) {
+      return NextResponse.json(
+        { error: 'hybridAlpha must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const fusionMethod = retrievalOptions.fusionMethod || config.retrieval.fusionMethod;
+    if (!['weighted', 'rrf'].includes(fusionMethod)) {
+      return NextResponse.json(
+        { error: 'fusionMethod must be either "weighted" or "rrf"' },
+        { status: 400 }
+      );
+    }
+
+    const lambda = retrievalOptions.lambda ?? 0.5;
+    if (typeof lambda !== 'number' || lambda < 0 || lambda > 1) {
+      return NextResponse.json(
+        { error: 'lambda must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const multiQueryCount = retrievalOptions.multiQueryCount ?? config.retrieval.multiQueryCount;
+    if (
+      !Number.isInteger(multiQueryCount) ||
+      multiQueryCount < 0 ||
+      multiQueryCount > MAX_QUERY_VARIANTS
+    ) {
+      return NextResponse.json(
+        { error: `multiQueryCount must be an integer between 0 and ${MAX_QUERY_VARIANTS}` },
+        { status: 400 }
+      );
+    }
+
+    const { includeSections, excludeSections } = retrievalOptions;
+    for (const sections of [includeSections, excludeSections]) {
+      if (sections !== undefined && (!Array.isArray(sections) || !sections.every(isChunkType))) {
+        return NextResponse.json(
+          { error: `Sections must be an array of: ${CHUNK_TYPES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Library questions ("which of my papers ...") need more than a handful of chunks
+    const defaultK = libraryPaperIds ? config.retrieval.maxK : config.retrieval.defaultK;
+
     const options = {
-      k: retrievalOptions.k || config.retrieval.defaultK,
+      k: retrievalOptions.k || defaultK,
       searchType: retrievalOptions.searchType || config.retrieval.searchType,
       scoreThreshold: retrievalOptions.scoreThreshold || config.retrieval.scoreThreshold,
+      hybridAlpha,
+      fusionMethod,
+      fetchK: Math.min(retrievalOptions.fetchK || config.retrieval.maxK, config.retrieval.maxK),
+      lambda,
+      paperIds: libraryPaperIds,
+      multiQueryCount,
+      includeSections,
+      excludeSections,
     };
 
     if (stream && config.openai.streamingEnabled) {
@@ -54,7 +173,8 @@ export async function POST(request: NextRequest) {
         },
         sessionId,
         paperId,
-        options
+        options,
+        { provider, model }
       ).then(async (result) => {
         await writer.write(
           encoder.encode(
@@ -62,6 +182,9 @@ export async function POST(request: NextRequest) {
               done: true,
               sources: result.sources,
               citations: result.citations,
+              papers: result.papers,
+              rewrittenQuery: result.rewrittenQuery,
+              queryVariants: result.queryVariants,
               queryTime: result.queryTime,
             })}\n\n`
           )
@@ -87,7 +210,8 @@ export async function POST(request: NextRequest) {
         userId,
         sessionId,
         paperId,
-        options
+        options,
+        { provider, model }
       );
 
       return NextResponse.json({
@@ -95,6 +219,9 @@ export async function POST(request: NextRequest) {
         answer: result.answer,
         sources: result.sources,
         citations: result.citations,
+        papers: result.papers,
+        rewrittenQuery: result.rewrittenQuery,
+        queryVariants: result.queryVariants,
         queryTime: result.queryTime,
         sessionId: result.sessionId,
       });
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { RAGAgent } from '@/lib/rag/rag_agent';
 import { ConfigManager, loadConfigFromEnv } from '@/lib/rag/config';
+import { createChatModelRegistry } from '@/lib/rag/chat_models';
 
 const configManager = new ConfigManager(loadConfigFromEnv());
 const config = configManager.get();
+const chatModels = createChatModelRegistry(config);
 
 const ragAgent = new RAGAgent({
   openaiApiKey: config.openai.apiKey,
@@ -12,27 +14,38 @@ const ragAgent = new RAGAgent({
   chromaUrl: config.vectorStore.chromaUrl,
   vectorStoreType: config.vectorStore.type,
   modelName: config.openai.model,
+  chatModels,
+  embeddingProvider: config.embeddings.provider,
+  embeddingModel: config.embeddings.model,
+  embeddingDimensions: config.embeddings.dimensions,
   chunkSize: config.chunking.chunkSize,
   chunkOverlap: config.chunking.chunkOverlap,
+  parentChunkSize: config.chunking.parentChunkSize,
+  semanticChunking: config.chunking.semanticChunking,
+  minChunkSize: config.chunking.minChunkSize,
+  maxChunkSize: config.chunking.maxChunkSize,
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, paperId, title } = body;
+    const { userId, paperId, paperIds, title } = body;
 
-    if (!userId || !paperId || !title) {
+    const ids: string[] = Array.isArray(paperIds) ? paperIds : paperId ? [paperId] : [];
+
+    if (!userId || ids.length === 0 || !title) {
       return NextResponse.json(
-        { error: 'User ID, Paper ID, and title are required' },
+        { error: 'User ID, Paper ID(s), and title are required' },
         { status: 400 }
       );
     }
 
-    const sessionId = await ragAgent.createChatSession(userId, paperId, title);
+    const sessionId = await ragAgent.createChatSession(userId, ids, title);
 
     return NextResponse.json({
       success: true,
       sessionId,
+      paperIds: ids,
       message: 'Chat session created successfully',
     });
   } catch (error: any) {
@@ -44,6 +57,35 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, sessionId, paperIds } = body;
+
+    if (!userId || !sessionId || !Array.isArray(paperIds)) {
+      return NextResponse.json(
+        { error: 'User ID, Session ID, and paperIds are required' },
+        { status: 400 }
+      );
+    }
+
+    const attached = await ragAgent.setSessionPapers(sessionId, userId, paperIds);
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      paperIds: attached,
+      message: 'Session papers updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Update session papers error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update session papers', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
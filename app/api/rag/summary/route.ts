@@ -1,20 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
+import { ConfigManager, loadConfigFromEnv } from '@/lib/rag/config';
+import { createChatModelRegistry } from '@/lib/rag/chat_models';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
+const config = new ConfigManager(loadConfigFromEnv()).get();
+const chatModels = createChatModelRegistry(config);
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { paper_id } = body;
+    const { paper_id, provider, model } = body;
 
     if (!paper_id) {
       return NextResponse.json(
@@ -23,6 +23,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (provider !== undefined && !chatModels.has(provider)) {
+      return NextResponse.json(
+        { error: `provider must be one of: ${chatModels.available().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+      return NextResponse.json(
+        { error: 'model must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
     // Get paper details including storage path
     const { data: paper } = await supabase
       .from('papers')
@@ -66,13 +80,16 @@ export async function POST(request: NextRequest) {
       console.log('Could not download PDF:', err);
     }
 
-    // First try to get chunks if they exist
-    const { data: chunks } = await supabase
-      .from('paper_chunks')
-      .select('content')
-      .eq('paper_id', paper_id)
-      .order('page_no', { ascending: true })
-      .limit(5);
+    // First try to get chunks of the current version if it has been ingested
+    const { data: chunks } = paper.current_version_id
+      ? await supabase
+          .from('paper_chunks')
+          .select('content')
+          .eq('paper_id', paper_id)
+          .eq('version_id', paper.current_version_id)
+          .order('page_no', { ascending: true })
+          .limit(5)
+      : { data: null };
 
     // If we have chunks, use them. Otherwise, try to use raw PDF content
     let contextForSummary = '';
@@ -102,24 +119,22 @@ You can inquire about complex concepts, request explanations of technical detail
       });
     }
 
-    // Generate summary using OpenAI with whatever content we have
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a research assistant. Extract the actual paper title from the content and provide a concise, factual summary. Format response as:\n\nTitle: [Actual paper title from content]\n\n[2-3 paragraph summary focusing on main research contributions, methodology, and findings]. No emojis or special formatting.'
-        },
-        {
-          role: 'user',
-          content: `Extract the title and summarize this research paper content:\n\n${contextForSummary}`
-        }
+    // Generate summary from whatever content we have. OpenAI summaries use the
+    // smaller summary model unless the request names one.
+    const summaryModel = model ?? ((provider ?? chatModels.defaultProvider) === 'openai' ? config.openai.summaryModel : undefined);
+    const llm = chatModels.create({ provider, model: summaryModel }, { temperature: 0.3, maxTokens: 400 });
+    const completion = await llm.invoke([
+      [
+        'system',
+        'You are a research assistant. Extract the actual paper title from the content and provide a concise, factual summary. Format response as:\n\nTitle: [Actual paper title from content]\n\n[2-3 paragraph summary focusing on main research contributions, methodology, and findings]. No emojis or special formatting.'
       ],
-      max_tokens: 400,
-      temperature: 0.3,
-    });
+      [
+        'human',
+        `Extract the title and summarize this research paper content:\n\n${contextForSummary}`
+      ],
+    ]);
 
-    const summary = completion.choices[0]?.message?.content ||
+    const summary = String(completion.content).trim() ||
       `Paper "${paper?.title || 'Untitled'}" has been processed and is ready for discussion.`;
 
     return NextResponse.json({
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, Suspense } from "react";
 import { useSupabase } from "@/lib/hooks/useSupabase";
+import { useProcessingProgress } from "@/lib/hooks/useProcessingProgress";
 import { useRouter, useSearchParams } from "next/navigation";
 import {
   Plus,
@@ -14,11 +15,23 @@ import {
   X,
   ArrowLeft,
   PanelLeftClose,
-  PanelLeft
+  PanelLeft,
+  FileText,
+  ListTree,
+  ChevronRight
 } from "lucide-react";
 import { ExportChatButton } from "@/frontend/components/ExportChatButton";
+import { CitationBadge } from "@/frontend/components/CitationBadge";
+import { PdfViewer } from "@/frontend/components/PdfViewer";
+import { DocumentTextViewer } from "@/frontend/components/DocumentTextViewer";
+import { DocumentType, documentTypeOfPath } from "@/lib/rag/document_types";
+import { ProcessingProgressBar } from "@/frontend/components/ProcessingProgressBar";
 import { useStats } from "@/lib/contexts/StatsContext";
 import { useConfirm } from "@/lib/contexts/ConfirmContext";
+import { CHUNK_TYPES, CHUNK_TYPE_LABELS, ChunkType } from "@/lib/rag/sections";
+import type { SectionNode } from "@/lib/rag/outline";
+import type { PageSpan } from "@/lib/rag/pages";
+import { MessageCitation, citationsFromSources } from "@/lib/rag/citations";
 
 interface ChatSession {
   id: string;
@@ -30,8 +43,41 @@ interface ChatSession {
   paper?: {
     title: string;
   };
+  chat_session_papers?: Array<{
+    paper_id: string;
+    papers: { id: string; title: string } | null;
+  }>;
 }
 
+interface LibraryPaper {
+  id: string;
+  title: string;
+}
+
+const SESSION_SELECT = `
+  *,
+  papers (title),
+  chat_session_papers (paper_id, papers (id, title))
+`;
+
+// Sessions created before multi-paper support only carry paper_id
+const getAttachedPaperIds = (session: ChatSession | null | undefined): string[] => {
+  if (!session) return [];
+  if (session.chat_session_papers?.length) {
+    return session.chat_session_papers.map(p => p.paper_id);
+  }
+  return session.paper_id ? [session.paper_id] : [];
+};
+
+// 'all' searches every section, 'no-references' skips the reference list
+type SectionScope = 'all' | 'no-references' | ChunkType;
+
+const sectionScopeOptions = (scope: SectionScope) => {
+  if (scope === 'all') return {};
+  if (scope === 'no-references') return { excludeSections: ['references'] };
+  return { includeSections: [scope] };
+};
+
 interface Message {
   id: string;
   content: string;
@@ -41,6 +87,56 @@ interface Message {
   metadata?: any;
 }
 
+// Collapsible section tree for the paper outline; selecting a section jumps
+// the viewer to its page
+function OutlineTree({ nodes, onSelect, depth = 0 }: {
+  nodes: SectionNode[];
+  onSelect: (page: number) => void;
+  depth?: number;
+}) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <ul>
+      {nodes.map(node => (
+        <li key={node.id}>
+          <div
+            className="flex items-center gap-1 pr-3 py-1 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            style={{ paddingLeft: 12 + depth * 12 }}
+          >
+            {node.children.length > 0 ? (
+              <button onClick={() => toggle(node.id)} className="p-0.5 text-gray-400">
+                <ChevronRight className={`h-3 w-3 transition-transform ${collapsed.has(node.id) ? '' : 'rotate-90'}`} />
+              </button>
+            ) : (
+              <span className="w-4" />
+            )}
+            <button
+              onClick={() => node.pageNumber && onSelect(node.pageNumber)}
+              className="flex-1 text-left truncate"
+              title={node.pageNumber ? `Page ${node.pageNumber}` : undefined}
+            >
+              {node.number && !node.title.startsWith('Appendix') ? `${node.number} ${node.title}` : node.title}
+            </button>
+          </div>
+          {node.children.length > 0 && !collapsed.has(node.id) && (
+            <OutlineTree nodes={node.children} onSelect={onSelect} depth={depth + 1} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function ChatNewPageContent() {
   const supabase = useSupabase();
   const { confirmDeleteConversation } = useConfirm();
@@ -62,9 +158,21 @@ function ChatNewPageContent() {
   const [chatWidth, setChatWidth] = useState(550);
   const [isResizing, setIsResizing] = useState(false);
   const [pdfBaseUrl, setPdfBaseUrl] = useState<string | null>(null);
+  // Format of the previewed paper; anything but a PDF is shown as text
+  const [previewDocumentType, setPreviewDocumentType] = useState<DocumentType | null>(null);
   const [processingStatus, setProcessingStatus] = useState<'pending' | 'processing' | 'completed' | 'failed' | null>(null);
   const [processingError, setProcessingError] = useState<string | null>(null);
   const [generatingSummary, setGeneratingSummary] = useState(false);
+  const [libraryPapers, setLibraryPapers] = useState<LibraryPaper[]>([]);
+  const [updatingPapers, setUpdatingPapers] = useState(false);
+  const [sectionScope, setSectionScope] = useState<SectionScope>('all');
+  const [previewPaperId, setPreviewPaperId] = useState<string | null>(null);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const [outline, setOutline] = useState<SectionNode[]>([]);
+  const [outlineOpen, setOutlineOpen] = useState(false);
+  const [pdfPage, setPdfPage] = useState<number | null>(null);
+  const [pdfNavigation, setPdfNavigation] = useState(0);
+  const [highlightSpans, setHighlightSpans] = useState<PageSpan[]>([]);
   const pdfLoadedRef = useRef<boolean>(false);
   const resizeRef = useRef<HTMLDivElement>(null);
   const initialPaperIdRef = useRef<string | null>(null);
@@ -162,17 +270,22 @@ function ChatNewPageContent() {
         return;
       }
 
-      const { data: sessionsData, error } = await supabase
-        .from('chat_sessions')
-        .select(`
-          *,
-          papers (title)
-        `)
-        .eq('user_id', user.id)
-        .order('updated_at', { ascending: false });
+      const [{ data: sessionsData, error }, { data: papersData }] = await Promise.all([
+        supabase
+          .from('chat_sessions')
+          .select(SESSION_SELECT)
+          .eq('user_id', user.id)
+          .order('updated_at', { ascending: false }),
+        supabase
+          .from('papers')
+          .select('id, title')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+      ]);
 
       if (error) throw error;
       setSessions(sessionsData || []);
+      setLibraryPapers(papersData || []);
       setSessionsFetched(true);
     } catch (error) {
       console.error('Error fetching sessions:', error);
@@ -193,7 +306,7 @@ function ChatNewPageContent() {
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
-        .select()
+        .select(SESSION_SELECT)
         .single();
 
       if (error) {
@@ -219,7 +332,7 @@ function ChatNewPageContent() {
       // Still fetch session data for currentSession but don't show loading
       const { data: session } = await supabase
         .from('chat_sessions')
-        .select(`*, papers (title)`)
+        .select(SESSION_SELECT)
         .eq('id', sessionId)
         .single();
       if (session) setCurrentSession(session);
@@ -233,10 +346,7 @@ function ChatNewPageContent() {
     try {
       const { data: session, error: sessionError } = await supabase
         .from('chat_sessions')
-        .select(`
-          *,
-          papers (title)
-        `)
+        .select(SESSION_SELECT)
         .eq('id', sessionId)
         .single();
 
@@ -328,25 +438,31 @@ function ChatNewPageContent() {
       }
 
       let assistantContent = "";
+      let assistantCitations: MessageCitation[] = [];
 
       // Use the session from when the request started
       const sessionForRequest = sessions.find(s => s.id === sessionIdAtStart);
 
-      if (sessionForRequest?.paper_id) {
+      const sessionPaperIds = getAttachedPaperIds(sessionForRequest);
+
+      if (sessionPaperIds.length > 0) {
+        // The query route searches every paper attached to the session
         const response = await fetch('/api/rag/query', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             question: messageContent,
-            paperId: sessionForRequest.paper_id,
+            paperId: sessionPaperIds[0],
             sessionId: sessionIdAtStart,
             userId: user.id,
+            retrievalOptions: sectionScopeOptions(sectionScope),
           }),
         });
 
         if (response.ok) {
           const data = await response.json();
           assistantContent = data.answer;
+          assistantCitations = citationsFromSources(data.sources);
         } else {
           assistantContent = "Sorry, I encountered an error processing your question about the paper.";
         }
@@ -359,7 +475,8 @@ function ChatNewPageContent() {
         content: assistantContent,
         role: 'assistant',
         created_at: new Date().toISOString(),
-        session_id: sessionIdAtStart
+        session_id: sessionIdAtStart,
+        metadata: assistantCitations.length > 0 ? { citations: assistantCitations } : undefined
       };
 
       // Update cache first
@@ -432,12 +549,56 @@ function ChatNewPageContent() {
     }
   };
 
+  const updateSessionPapers = async (paperIds: string[]) => {
+    if (!currentSession) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setUpdatingPapers(true);
+    try {
+      const response = await fetch('/api/rag/session', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: currentSession.id,
+          userId: user.id,
+          paperIds,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update session papers');
+      }
+
+      const attached = paperIds.map(paperId => ({
+        paper_id: paperId,
+        papers: libraryPapers.find(p => p.id === paperId) || null,
+      }));
+      const updatedSession = {
+        ...currentSession,
+        paper_id: paperIds[0] || null,
+        chat_session_papers: attached,
+      };
+
+      setCurrentSession(updatedSession);
+      setSessions(prev => prev.map(s => s.id === updatedSession.id ? updatedSession : s));
+    } catch (error) {
+      console.error('Error updating session papers:', error);
+    } finally {
+      setUpdatingPapers(false);
+    }
+  };
+
+  const currentPaperIds = getAttachedPaperIds(currentSession);
+  const attachablePapers = libraryPapers.filter(p => !currentPaperIds.includes(p.id));
+
   const filteredSessions = sessions.filter(session => {
     // Filter by search term
     const matchesSearch = session.title.toLowerCase().includes(searchTerm.toLowerCase());
 
     // Filter by paper if specified
-    const matchesPaper = filterPaperId ? session.paper_id === filterPaperId : true;
+    const matchesPaper = filterPaperId ? getAttachedPaperIds(session).includes(filterPaperId) : true;
 
     return matchesSearch && matchesPaper;
   });
@@ -454,13 +615,14 @@ function ChatNewPageContent() {
       }
 
       pdfLoadedRef.current = true;
+      setPreviewPaperId(paperId);
       setPreviewLoading(true);
 
       try {
         // First check processing status
         const { data: paper, error } = await supabase
           .from('papers')
-          .select('storage_path, processing_status, processing_error')
+          .select('storage_path, processing_status, processing_error, current_version_id')
           .eq('id', paperId)
           .single();
 
@@ -468,70 +630,26 @@ function ChatNewPageContent() {
           console.error('Paper fetch error:', error);
           return;
         }
-
-        // Check if paper has chunks (means it's been processed regardless of status)
-        const { count: chunkCount } = await supabase
-          .from('paper_chunks')
-          .select('*', { count: 'exact', head: true })
-          .eq('paper_id', paperId);
+        setPreviewVersionId(paper.current_version_id);
+
+        // Check if the current version has chunks (means it's been processed
+        // regardless of status); a replacement's own chunks don't count
+        const { count: chunkCount } = paper.current_version_id
+          ? await supabase
+              .from('paper_chunks')
+              .select('*', { count: 'exact', head: true })
+              .eq('paper_id', paperId)
+              .eq('version_id', paper.current_version_id)
+          : { count: 0 };
 
         // If chunks exist, paper is processed - override any stale status
         const hasChunks = (chunkCount || 0) > 0;
         const status = hasChunks ? 'completed' : (paper?.processing_status || 'completed');
         setProcessingStatus(status);
 
+        // Live progress picks up from here; see the effect below
         if (status === 'pending' || status === 'processing') {
-          // Poll for completion
-          const pollInterval = setInterval(async () => {
-            // Check both status and chunks
-            const [{ data: updatedPaper }, { count: updatedChunkCount }] = await Promise.all([
-              supabase
-                .from('papers')
-                .select('processing_status, processing_error, storage_path')
-                .eq('id', paperId)
-                .single(),
-              supabase
-                .from('paper_chunks')
-                .select('*', { count: 'exact', head: true })
-                .eq('paper_id', paperId)
-            ]);
-
-            const chunksExist = (updatedChunkCount || 0) > 0;
-            const effectiveStatus = chunksExist ? 'completed' : (updatedPaper?.processing_status || null);
-
-            if (updatedPaper) {
-              setProcessingStatus(effectiveStatus);
-
-              if (effectiveStatus === 'completed') {
-                clearInterval(pollInterval);
-                setProcessingError(null);
-                // Load PDF after processing complete
-                if (updatedPaper.storage_path) {
-                  const { data: signed } = await supabase.storage
-                    .from('papers')
-                    .createSignedUrl(updatedPaper.storage_path, 60 * 60);
-                  if (signed?.signedUrl) {
-                    setPdfBaseUrl(signed.signedUrl);
-                  }
-                }
-                setPreviewLoading(false);
-
-                // Generate summary now that processing is done
-                const sessionId = searchParams.get('session');
-                const { data: { user } } = await supabase.auth.getUser();
-                if (sessionId && user) {
-                  generateSummary(paperId, sessionId, user.id);
-                }
-              } else if (effectiveStatus === 'failed') {
-                clearInterval(pollInterval);
-                setProcessingError(updatedPaper.processing_error || 'Processing failed');
-                setPreviewLoading(false);
-              }
-            }
-          }, 2000); // Poll every 2 seconds
-
-          // Cleanup interval on unmount
-          return () => clearInterval(pollInterval);
+          return;
         }
 
         if (status === 'failed') {
@@ -540,24 +658,29 @@ function ChatNewPageContent() {
           return;
         }
 
-        // Processing is complete, load PDF
+        // Processing is complete, load the preview
         if (!paper?.storage_path) {
           console.error('No storage_path for paper');
           setPreviewLoading(false);
           return;
         }
 
-        const { data: signed, error: signedError } = await supabase.storage
-          .from('papers')
-          .createSignedUrl(paper.storage_path, 60 * 60);
+        const documentType = documentTypeOfPath(paper.storage_path);
+        setPreviewDocumentType(documentType);
 
-        if (signedError || !signed?.signedUrl) {
-          console.error('Signed URL error:', signedError);
-          return;
-        }
-        console.log('PDF URL obtained:', signed.signedUrl.substring(0, 100) + '...');
+        if (documentType === 'pdf') {
+          const { data: signed, error: signedError } = await supabase.storage
+            .from('papers')
+            .createSignedUrl(paper.storage_path, 60 * 60);
 
-        setPdfBaseUrl(signed.signedUrl);
+          if (signedError || !signed?.signedUrl) {
+            console.error('Signed URL error:', signedError);
+            return;
+          }
+          console.log('PDF URL obtained:', signed.signedUrl.substring(0, 100) + '...');
+
+          setPdfBaseUrl(signed.signedUrl);
+        }
 
         // Generate summary for new sessions with already-processed papers
         const sessionId = searchParams.get('session');
@@ -588,6 +711,104 @@ function ChatNewPageContent() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const isProcessing = processingStatus === 'pending' || processingStatus === 'processing';
+  const processingProgress = useProcessingProgress(previewPaperId && isProcessing ? [previewPaperId] : []);
+  const liveProgress = previewPaperId ? processingProgress[previewPaperId] : undefined;
+
+  // Loads the preview and writes the opening summary once the paper is processed
+  const handleProcessingComplete = async (paperId: string) => {
+    const { data: paper } = await supabase
+      .from('papers')
+      .select('storage_path, current_version_id')
+      .eq('id', paperId)
+      .single();
+
+    setPreviewVersionId(paper?.current_version_id ?? null);
+
+    const documentType = paper?.storage_path ? documentTypeOfPath(paper.storage_path) : null;
+    setPreviewDocumentType(documentType);
+
+    if (paper?.storage_path && documentType === 'pdf') {
+      const { data: signed } = await supabase.storage
+        .from('papers')
+        .createSignedUrl(paper.storage_path, 60 * 60);
+      if (signed?.signedUrl) {
+        setPdfBaseUrl(signed.signedUrl);
+      }
+    }
+    setPreviewLoading(false);
+
+    const sessionId = searchParams.get('session');
+    const { data: { user } } = await supabase.auth.getUser();
+    if (sessionId && user) {
+      generateSummary(paperId, sessionId, user.id);
+    }
+  };
+
+  useEffect(() => {
+    if (!liveProgress || !previewPaperId || !isProcessing) return;
+
+    if (liveProgress.status === 'completed') {
+      setProcessingStatus('completed');
+      setProcessingError(null);
+      handleProcessingComplete(previewPaperId);
+    } else if (liveProgress.status === 'failed') {
+      setProcessingStatus('failed');
+      setProcessingError(liveProgress.error || 'Processing failed');
+      setPreviewLoading(false);
+    } else if (liveProgress.status !== processingStatus) {
+      setProcessingStatus(liveProgress.status);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveProgress?.status]);
+
+  // Load the table of contents once the previewed paper has been processed
+  useEffect(() => {
+    if (!previewPaperId || processingStatus !== 'completed') {
+      setOutline([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/papers/${previewPaperId}/outline`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(json => {
+        if (!cancelled) setOutline(json?.data?.sections || []);
+      })
+      .catch(error => console.error('Outline fetch error:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewPaperId, processingStatus]);
+
+  const goToPage = (page: number) => {
+    setHighlightSpans([]);
+    setPdfPage(page);
+    setPdfNavigation(n => n + 1);
+  };
+
+  const textPreview = !!previewPaperId && !!previewDocumentType && previewDocumentType !== 'pdf';
+
+  // Only passages from the paper and version in the viewer can be shown there
+  const canShowCitation = (citation: MessageCitation) =>
+    (!!pdfBaseUrl || textPreview) &&
+    (!citation.paperId || citation.paperId === previewPaperId) &&
+    (!citation.versionId || !previewVersionId || citation.versionId === previewVersionId);
+
+  // Version label for papers that have been replaced; answers from before the
+  // latest replacement keep pointing at the version they were grounded in
+  const citationVersion = (citation: MessageCitation) =>
+    citation.version && (citation.version > 1 || (!!previewVersionId && citation.versionId !== previewVersionId))
+      ? citation.version
+      : undefined;
+
+  const showCitation = (citation: MessageCitation) => {
+    setHighlightSpans(citation.spans || []);
+    setPdfPage(citation.page_no);
+    setPdfNavigation(n => n + 1);
+  };
+
   // Generate summary for the paper
   const generateSummary = async (paperId: string, sessionId: string, userId: string) => {
     setGeneratingSummary(true);
@@ -626,10 +847,7 @@ function ChatNewPageContent() {
             user_id: userId,
             created_at: new Date().toISOString(),
             metadata: {
-              citations: summaryData.sources?.map((source: { metadata?: { page?: number }; content: string }) => ({
-                page: source.metadata?.page || 0,
-                text: source.content
-              })),
+              citations: citationsFromSources(summaryData.sources),
               is_system_summary: true
             }
           });
@@ -747,6 +965,49 @@ function ChatNewPageContent() {
           </div>
         )}
 
+        {/* Papers attached to the current session */}
+        {sidebarOpen && currentSession && (
+          <div className="px-3 pb-3 border-b border-gray-200 dark:border-gray-700">
+            <div className="text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400 mb-2">
+              Papers in this chat
+            </div>
+            <div className="space-y-1">
+              {currentPaperIds.map(paperId => {
+                const title = libraryPapers.find(p => p.id === paperId)?.title || 'Untitled paper';
+                return (
+                  <div key={paperId} className="group flex items-center gap-2 text-xs text-gray-900 dark:text-white">
+                    <FileText className="h-3 w-3 flex-shrink-0 text-gray-600 dark:text-gray-400" />
+                    <span className="flex-1 truncate" title={title}>{title}</span>
+                    {currentPaperIds.length > 1 && (
+                      <button
+                        onClick={() => updateSessionPapers(currentPaperIds.filter(id => id !== paperId))}
+                        disabled={updatingPapers}
+                        className="opacity-0 group-hover:opacity-100 p-0.5 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-opacity"
+                        title="Remove from chat"
+                      >
+                        <X className="h-3 w-3 text-gray-600 dark:text-gray-400" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {attachablePapers.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && updateSessionPapers([...currentPaperIds, e.target.value])}
+                disabled={updatingPapers}
+                className="mt-2 w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-gray-900 dark:focus:ring-white disabled:opacity-50"
+              >
+                <option value="">+ Add paper to chat</option>
+                {attachablePapers.map(paper => (
+                  <option key={paper.id} value={paper.id}>{paper.title}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
         {/* Session list */}
         <div className={`flex-1 overflow-y-auto pt-2 ${sidebarOpen ? 'px-2' : 'px-1'}`}>
           {filteredSessions.map((session, index) => (
@@ -879,9 +1140,28 @@ function ChatNewPageContent() {
                                   </div>
                                 </div>
                               ) : (
-                                <div className="text-gray-900 dark:text-gray-100 px-2 py-1 whitespace-pre-wrap text-sm leading-relaxed">
-                                  {message.content}
-                                </div>
+                                <>
+                                  <div className="text-gray-900 dark:text-gray-100 px-2 py-1 whitespace-pre-wrap text-sm leading-relaxed">
+                                    {message.content}
+                                  </div>
+                                  {message.metadata?.citations?.some((c: MessageCitation) => c.page_no > 0) && (
+                                    <div className="flex flex-wrap gap-1.5 px-2 pt-1">
+                                      {(message.metadata.citations as MessageCitation[])
+                                        .filter(citation => citation.page_no > 0)
+                                        .map((citation, index) => (
+                                          <CitationBadge
+                                            key={citation.chunkId || index}
+                                            page={citation.page_no}
+                                            endPage={citation.end_page_no}
+                                            text={citation.text}
+                                            version={citationVersion(citation)}
+                                            table={citation.table}
+                                            onClick={canShowCitation(citation) ? () => showCitation(citation) : undefined}
+                                          />
+                                        ))}
+                                    </div>
+                                  )}
+                                </>
                               )}
                             </div>
                           </div>
@@ -901,6 +1181,18 @@ function ChatNewPageContent() {
                 </div>
                 <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 p-3">
                   <div className="flex gap-2">
+                    <select
+                      value={sectionScope}
+                      onChange={(e) => setSectionScope(e.target.value as SectionScope)}
+                      title="Limit the search to a section of the paper"
+                      className="px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white text-xs focus:outline-none focus:ring-1 focus:ring-gray-400"
+                    >
+                      <option value="all">All sections</option>
+                      <option value="no-references">Skip references</option>
+                      {CHUNK_TYPES.filter(type => type !== 'body').map(type => (
+                        <option key={type} value={type}>{CHUNK_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
                     <input
                       type="text"
                       value={input}
@@ -930,15 +1222,13 @@ function ChatNewPageContent() {
                 />
               )}
 
-              {/* PDF viewer */}
+              {/* Document preview */}
               <div className="flex-1 bg-gray-50 dark:bg-gray-900 overflow-hidden">
                 {(processingStatus === 'pending' || processingStatus === 'processing') ? (
                   <div className="h-full flex flex-col items-center justify-center text-gray-500 dark:text-gray-400 px-6">
                     <Loader2 className="h-8 w-8 animate-spin mb-4" />
-                    <p className="text-sm font-medium mb-2">Processing document...</p>
-                    <p className="text-xs text-center max-w-sm">
-                      Your document is being analyzed. This usually takes 10-30 seconds.
-                    </p>
+                    <p className="text-sm font-medium mb-3">Processing document...</p>
+                    <ProcessingProgressBar progress={liveProgress} className="max-w-xs text-center" />
                   </div>
                 ) : processingStatus === 'failed' ? (
                   <div className="h-full flex flex-col items-center justify-center text-red-500 dark:text-red-400 px-6">
@@ -954,15 +1244,54 @@ function ChatNewPageContent() {
                   <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
                     <Loader2 className="h-6 w-6 animate-spin" />
                   </div>
-                ) : pdfBaseUrl ? (
-                  <iframe
-                    src={pdfBaseUrl}
-                    className="w-full h-full border-0 bg-gray-50 dark:bg-gray-900"
-                    title="PDF Viewer"
-                  />
+                ) : pdfBaseUrl || textPreview ? (
+                  <div className="relative h-full flex">
+                    {outline.length > 0 && outlineOpen && (
+                      <div className="w-64 flex-shrink-0 overflow-y-auto border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 py-3">
+                        <div className="flex items-center justify-between px-3 pb-2">
+                          <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">Contents</span>
+                          <button
+                            onClick={() => setOutlineOpen(false)}
+                            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded"
+                            title="Hide contents"
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                        <OutlineTree nodes={outline} onSelect={goToPage} />
+                      </div>
+                    )}
+                    {outline.length > 0 && !outlineOpen && (
+                      <button
+                        onClick={() => setOutlineOpen(true)}
+                        className="absolute top-3 left-3 z-10 flex items-center gap-1.5 px-2.5 py-1.5 text-xs bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700"
+                        title="Show contents"
+                      >
+                        <ListTree className="h-3.5 w-3.5" />
+                        Contents
+                      </button>
+                    )}
+                    <div className="flex-1 h-full min-w-0">
+                      {pdfBaseUrl ? (
+                        <PdfViewer
+                          url={pdfBaseUrl}
+                          page={pdfPage}
+                          navigationKey={pdfNavigation}
+                          highlights={highlightSpans}
+                        />
+                      ) : (
+                        <DocumentTextViewer
+                          paperId={previewPaperId!}
+                          page={pdfPage}
+                          navigationKey={pdfNavigation}
+                          highlights={highlightSpans}
+                        />
+                      )}
+                    </div>
+                  </div>
                 ) : (
                   <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400 px-6 text-sm">
-                    No PDF preview available for this chat.
+                    No document preview available for this chat.
                   </div>
                 )}
               </div>
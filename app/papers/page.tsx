@@ -1,12 +1,15 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useSupabase } from "@/lib/hooks/useSupabase";
 import { useRouter } from "next/navigation";
-import { FileText, Clock, Trash2, Loader2, Search, Heart, ArrowLeft, BookOpen } from "lucide-react";
+import { FileText, FileUp, Clock, Trash2, Loader2, Search, Heart, ArrowLeft, BookOpen } from "lucide-react";
 import { useAlert } from "@/lib/contexts/AlertContext";
 import { useConfirm } from "@/lib/contexts/ConfirmContext";
 import { usePapers, Paper } from "@/lib/hooks/useApi";
+import { useProcessingProgress } from "@/lib/hooks/useProcessingProgress";
+import { describeProgress } from "@/lib/rag/progress";
+import { ProcessingProgressBar } from "@/frontend/components/ProcessingProgressBar";
 import { useData } from "@/lib/contexts/DataContext";
 import { useStats } from "@/lib/contexts/StatsContext";
 import {
@@ -15,6 +18,7 @@ import {
   hasPreview,
   clearPreview
 } from "@/lib/utils/previewCache";
+import { DOCUMENT_ACCEPT, documentTypeOfPath } from "@/lib/rag/document_types";
 
 export default function PapersPage() {
   const supabase = useSupabase();
@@ -30,6 +34,9 @@ export default function PapersPage() {
   const [favoriteToggling, setFavoriteToggling] = useState<string | null>(null);
   const [openingNextRead, setOpeningNextRead] = useState<string | null>(null);
   const [previewImages, setPreviewImages] = useState<Record<string, string>>({});
+  const [replacing, setReplacing] = useState<string | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const replaceTargetRef = useRef<Paper | null>(null);
 
   // Use SWR data directly - no local state duplication
   const papers = cachedPapers || [];
@@ -38,21 +45,22 @@ export default function PapersPage() {
   // Filter for Next Read papers
   const nextReadPapers = dataPapers?.filter(p => p.is_next_read) || [];
 
-  // Check if any papers are still processing
-  const hasProcessingPapers = papers.some(
-    p => p.processing_status === 'pending' || p.processing_status === 'processing'
-  );
+  // Follow papers that are still processing
+  const processingPaperIds = papers
+    .filter(p => p.processing_status === 'pending' || p.processing_status === 'processing')
+    .map(p => p.id);
+  const processingProgress = useProcessingProgress(processingPaperIds);
 
-  // Poll for updates when papers are processing
-  useEffect(() => {
-    if (!hasProcessingPapers) return;
+  const finishedCount = processingPaperIds.filter(id =>
+    processingProgress[id]?.status === 'completed' || processingProgress[id]?.status === 'failed'
+  ).length;
 
-    const pollInterval = setInterval(() => {
+  // Refresh the list once a paper finishes
+  useEffect(() => {
+    if (finishedCount > 0) {
       mutate(); // Refresh SWR cache
-    }, 3000); // Poll every 3 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [hasProcessingPapers, mutate]);
+    }
+  }, [finishedCount, mutate]);
 
   // Generate previews for papers
   useEffect(() => {
@@ -98,7 +106,8 @@ export default function PapersPage() {
   const generatePreviewImages = async (paperList: Paper[]) => {
     await Promise.all(
       paperList.map(async (paper) => {
-        if (paper.storage_path) {
+        // Only PDFs have a first page to render; other documents keep the icon
+        if (paper.storage_path && documentTypeOfPath(paper.storage_path) === 'pdf') {
           const { data, error } = await supabase.storage
             .from('papers')
             .createSignedUrl(paper.storage_path, 60 * 60);
@@ -216,6 +225,38 @@ export default function PapersPage() {
     }
   };
 
+  const chooseReplacement = (paper: Paper) => {
+    replaceTargetRef.current = paper;
+    replaceInputRef.current?.click();
+  };
+
+  // Uploads a new version of the paper's file; sessions and citations stay attached
+  const replaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const paper = replaceTargetRef.current;
+    e.target.value = '';
+    if (!file || !paper) return;
+
+    setReplacing(paper.id);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/papers/${paper.id}`, { method: 'PUT', body: formData });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Upload failed');
+
+      showSuccess(`Processing version ${body.data.versionNumber} of "${paper.title}"`);
+      clearPreview(paper.id);
+      mutate();
+    } catch (err: any) {
+      console.error('Error replacing paper file:', err);
+      showError(`Failed to replace file: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setReplacing(null);
+    }
+  };
+
   const createChatSession = async (paperId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -416,8 +457,9 @@ export default function PapersPage() {
                       className="w-full h-full object-cover"
                     />
                   ) : (paper.processing_status === 'pending' || paper.processing_status === 'processing') ? (
-                    <div className="w-full h-full flex items-center justify-center bg-white/60 dark:bg-gray-600/60 backdrop-blur-sm">
+                    <div className="w-full h-full flex flex-col items-center justify-center gap-2 px-2 bg-white/60 dark:bg-gray-600/60 backdrop-blur-sm">
                       <Loader2 className="h-5 w-5 animate-spin text-gray-500 dark:text-gray-300" />
+                      <ProcessingProgressBar progress={processingProgress[paper.id]} compact className="text-center" />
                     </div>
                   ) : (
                     <div className="w-full h-full flex items-center justify-center">
@@ -522,7 +564,13 @@ export default function PapersPage() {
                         <Clock className="h-3 w-3 mr-1" />
                         {formatDate(paper.created_at)}
                       </span>
-                      <span>{paper.page_count} pages</span>
+                      <span className="truncate">
+                        {!processingPaperIds.includes(paper.id)
+                          ? `${paper.page_count} pages`
+                          : processingProgress[paper.id]
+                            ? describeProgress(processingProgress[paper.id])
+                            : 'Processing'}
+                      </span>
                     </div>
                   </div>
                   <div className="flex items-center space-x-0.5 pointer-events-auto">
@@ -546,6 +594,21 @@ export default function PapersPage() {
                         <Heart className="h-4 w-4" fill={paper.is_favorite ? 'currentColor' : 'none'} />
                       )}
                     </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        chooseReplacement(paper);
+                      }}
+                      disabled={replacing === paper.id || processingPaperIds.includes(paper.id)}
+                      className="p-1 rounded text-gray-200 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+                      title="Replace with a new version"
+                    >
+                      {replacing === paper.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <FileUp className="h-4 w-4" />
+                      )}
+                    </button>
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -568,6 +631,13 @@ export default function PapersPage() {
           ))}
         </div>
       )}
+      <input
+        ref={replaceInputRef}
+        type="file"
+        accept={DOCUMENT_ACCEPT}
+        onChange={replaceFile}
+        className="hidden"
+      />
     </div>
   );
 }
@@ -1,14 +1,22 @@
 "use client";
 
 import { useState } from "react";
-import { FileText } from "lucide-react";
+import { FileText, Table } from "lucide-react";
+import { formatPageRange } from "@/lib/rag/pages";
 
 interface CitationBadgeProps {
   page: number;
+  endPage?: number | null;
   text: string;
+  // Paper version the passage comes from; shown once a paper has been replaced
+  version?: number;
+  // Label of the table the passage was taken from ("Table 2")
+  table?: string;
+  // Shows the passage in the PDF viewer; without it the badge is display-only
+  onClick?: () => void;
 }
 
-export function CitationBadge({ page, text }: CitationBadgeProps) {
+export function CitationBadge({ page, endPage, text, version, table, onClick }: CitationBadgeProps) {
   const [isHovered, setIsHovered] = useState(false);
 
   return (
@@ -16,16 +24,24 @@ export function CitationBadge({ page, text }: CitationBadgeProps) {
       <button
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
-        className="inline-flex items-center gap-1 px-2 py-1 bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 rounded text-xs font-medium hover:bg-indigo-200 dark:hover:bg-indigo-800 transition-colors"
+        onClick={onClick}
+        disabled={!onClick}
+        className="inline-flex items-center gap-1 px-2 py-1 bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 rounded text-xs font-medium hover:bg-indigo-200 dark:hover:bg-indigo-800 disabled:cursor-default transition-colors"
       >
-        <FileText className="h-3 w-3" />
-        <span>p.{page}</span>
+        {table ? <Table className="h-3 w-3" /> : <FileText className="h-3 w-3" />}
+        {table && <span>{table},</span>}
+        <span>{formatPageRange(page, endPage)}</span>
+        {version && <span className="opacity-70">v{version}</span>}
       </button>
 
       {isHovered && (
         <div className="absolute bottom-full left-0 mb-2 w-64 p-3 bg-gray-900 text-white rounded-lg shadow-xl z-50 text-sm">
-          <p className="text-xs text-gray-400 mb-1">Page {page}</p>
-          <p className="text-xs leading-relaxed">{text}</p>
+          <p className="text-xs text-gray-400 mb-1">
+            {table && `${table} · `}
+            {endPage && endPage !== page ? `Pages ${page}–${endPage}` : `Page ${page}`}
+            {version && ` · version ${version}`}
+          </p>
+          <p className={`text-xs leading-relaxed ${table ? 'whitespace-pre-line' : ''}`}>{text}</p>
           <div className="absolute bottom-0 left-4 transform translate-y-1/2 rotate-45 w-2 h-2 bg-gray-900"></div>
         </div>
       )}
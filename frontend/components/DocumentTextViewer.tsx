@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { PageSpan, PageText } from "@/lib/rag/pages";
+import type { DocumentType } from "@/lib/rag/document_types";
+
+interface DocumentTextViewerProps {
+  paperId: string;
+  // Page (chapter for EPUBs) to scroll to; `navigationKey` changes re-scroll to it
+  page?: number | null;
+  navigationKey?: number;
+  // Passages to mark, as stored on chunks (see lib/rag/pages.ts)
+  highlights?: PageSpan[];
+}
+
+const NO_SPANS: PageSpan[] = [];
+
+/**
+ * Splits page text into plain and highlighted parts. Span positions count
+ * non-whitespace characters, so they are mapped back to offsets in the text.
+ */
+function segments(text: string, spans: PageSpan[]): Array<{ text: string; marked: boolean }> {
+  if (spans.length === 0) {
+    return [{ text, marked: false }];
+  }
+
+  const visible: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (!/\s/.test(text[i])) visible.push(i);
+  }
+
+  const ranges = spans
+    .filter(span => span.end > span.start && span.start < visible.length)
+    .map(span => ({
+      start: visible[span.start],
+      end: visible[Math.min(span.end, visible.length) - 1] + 1,
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const parts: Array<{ text: string; marked: boolean }> = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    const start = Math.max(range.start, cursor);
+    if (range.end <= start) continue;
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), marked: false });
+    parts.push({ text: text.slice(start, range.end), marked: true });
+    cursor = range.end;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), marked: false });
+
+  return parts;
+}
+
+/**
+ * Text preview for papers uploaded in formats the PDF viewer cannot show
+ * (Word, Markdown, HTML, EPUB, ...), with cited passages marked. Shows the
+ * text exactly as it was ingested so chunk positions line up.
+ */
+export function DocumentTextViewer({ paperId, page, navigationKey, highlights = NO_SPANS }: DocumentTextViewerProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [pages, setPages] = useState<PageText[] | null>(null);
+  const [type, setType] = useState<DocumentType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const spansByPage = useMemo(() => {
+    const byPage = new Map<number, PageSpan[]>();
+    for (const span of highlights) {
+      byPage.set(span.page, [...(byPage.get(span.page) || []), span]);
+    }
+    return byPage;
+  }, [highlights]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPages(null);
+
+    fetch(`/api/papers/${paperId}/text`)
+      .then(async res => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load document');
+        if (cancelled) return;
+        setType(json.data.type);
+        setPages(json.data.pages);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Document text load error:', err);
+        if (!cancelled) setError('Could not load the document.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paperId]);
+
+  // Scroll to the first marked passage, or the top of the requested page
+  useEffect(() => {
+    if (!pages) return;
+    const element = scrollRef.current?.querySelector('mark')
+      || (page ? scrollRef.current?.querySelector(`[data-page="${page}"]`) : null);
+    element?.scrollIntoView({ block: highlights.length > 0 ? 'center' : 'start' });
+  }, [pages, page, navigationKey, highlights]);
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400 px-6 text-sm">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto px-4 py-4">
+      {!pages ? (
+        <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        pages.map(({ pageNumber, text }) => (
+          <div
+            key={pageNumber}
+            data-page={pageNumber}
+            className="mx-auto mb-3 max-w-3xl bg-white dark:bg-gray-800 rounded shadow-sm px-8 py-6"
+          >
+            {pages.length > 1 && (
+              <div className="mb-3 text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wide">
+                {type === 'epub' ? 'Chapter' : 'Page'} {pageNumber}
+              </div>
+            )}
+            <div className={`whitespace-pre-wrap break-words text-sm leading-relaxed text-gray-800 dark:text-gray-200 ${type === 'json' ? 'font-mono' : ''}`}>
+              {segments(text, spansByPage.get(pageNumber) || NO_SPANS).map((part, index) =>
+                part.marked ? (
+                  <mark key={index} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm">
+                    {part.text}
+                  </mark>
+                ) : (
+                  part.text
+                )
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ interface ExportChatButtonProps {
     metadata?: {
       citations?: Array<{
         page_no: number;
+        end_page_no?: number | null;
         score: number;
       }>;
     };
@@ -8,7 +8,11 @@ import { useAlert } from "@/lib/contexts/AlertContext";
 import { useConfirm } from "@/lib/contexts/ConfirmContext";
 import { useData } from "@/lib/contexts/DataContext";
 import { useStats } from "@/lib/contexts/StatsContext";
+import { documentTypeOfPath } from "@/lib/rag/document_types";
 import { Paper } from "@/lib/hooks/useApi";
+import { useProcessingProgress } from "@/lib/hooks/useProcessingProgress";
+import { ProcessingProgressBar } from "@/frontend/components/ProcessingProgressBar";
+import { citationsFromSources } from "@/lib/rag/citations";
 import {
   getPreviewImage,
   setPreviewImage,
@@ -29,21 +33,22 @@ export function NextReadList() {
   // Filter for Next Read papers
   const nextReadPapers = papers?.filter(p => p.is_next_read) || [];
 
-  // Check if any papers are still processing
-  const hasProcessingPapers = nextReadPapers.some(
-    p => p.processing_status === 'pending' || p.processing_status === 'processing'
-  );
+  // Follow papers that are still processing
+  const processingPaperIds = nextReadPapers
+    .filter(p => p.processing_status === 'pending' || p.processing_status === 'processing')
+    .map(p => p.id);
+  const processingProgress = useProcessingProgress(processingPaperIds);
 
-  // Poll for updates when papers are processing
-  useEffect(() => {
-    if (!hasProcessingPapers) return;
+  const finishedCount = processingPaperIds.filter(id =>
+    processingProgress[id]?.status === 'completed' || processingProgress[id]?.status === 'failed'
+  ).length;
 
-    const pollInterval = setInterval(() => {
+  // Refresh the list once a paper finishes
+  useEffect(() => {
+    if (finishedCount > 0) {
       refreshPapers();
-    }, 3000); // Poll every 3 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [hasProcessingPapers, refreshPapers]);
+    }
+  }, [finishedCount, refreshPapers]);
 
   // Generate previews for papers that don't have them yet
   useEffect(() => {
@@ -65,7 +70,7 @@ export function NextReadList() {
   const generatePreviews = async (paperList: Paper[]) => {
     await Promise.all(
       paperList.map(async (paper) => {
-        if (paper.storage_path) {
+        if (paper.storage_path && documentTypeOfPath(paper.storage_path) === 'pdf') {
           const signed = await supabase.storage
             .from('papers')
             .createSignedUrl(paper.storage_path, 60 * 60);
@@ -167,10 +172,7 @@ export function NextReadList() {
                 user_id: user.id,
                 created_at: new Date().toISOString(),
                 metadata: {
-                  citations: summaryData.sources?.map((source: { metadata?: { page?: number }; content: string }) => ({
-                    page: source.metadata?.page || 0,
-                    text: source.content
-                  })),
+                  citations: citationsFromSources(summaryData.sources),
                   is_system_summary: true
                 }
               });
@@ -294,6 +296,9 @@ export function NextReadList() {
                     <Clock className="h-3 w-3" />
                     <span>{formatDate(paper.created_at)}</span>
                   </div>
+                  {processingPaperIds.includes(paper.id) && (
+                    <ProcessingProgressBar progress={processingProgress[paper.id]} compact className="mt-1.5" />
+                  )}
                 </div>
               </button>
 
@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { PDFDocumentProxy, PageViewport } from "pdfjs-dist";
+import type { PageSpan } from "@/lib/rag/pages";
+
+interface PdfViewerProps {
+  url: string;
+  // Page to scroll to; `navigationKey` changes re-scroll to the same page
+  page?: number | null;
+  navigationKey?: number;
+  // Passages to mark, as stored on chunks (see lib/rag/pages.ts)
+  highlights?: PageSpan[];
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const PAGE_GAP = 12;
+const NO_SPANS: PageSpan[] = [];
+
+/**
+ * Rectangles covering the highlighted spans of one page. Span positions count
+ * non-whitespace characters, so each text item is measured the same way and a
+ * partly covered item is cut in proportion to the characters it contributes.
+ */
+function highlightRects(
+  items: Array<{ str?: string; transform?: number[]; width?: number }>,
+  viewport: PageViewport,
+  spans: PageSpan[],
+  transform: (m1: number[], m2: number[]) => number[]
+): Rect[] {
+  const rects: Rect[] = [];
+  let position = 0;
+
+  for (const item of items) {
+    if (!item.str || !item.transform) continue;
+
+    const count = item.str.replace(/\s/g, '').length;
+    const itemStart = position;
+    position += count;
+    if (count === 0) continue;
+
+    for (const span of spans) {
+      const from = Math.max(span.start, itemStart);
+      const to = Math.min(span.end, position);
+      if (to <= from) continue;
+
+      const tx = transform(viewport.transform, item.transform);
+      const height = Math.hypot(tx[2], tx[3]);
+      const width = (item.width || 0) * viewport.scale;
+
+      rects.push({
+        left: tx[4] + width * ((from - itemStart) / count),
+        top: tx[5] - height,
+        width: width * ((to - from) / count),
+        height: height * 1.15,
+      });
+    }
+  }
+
+  return rects;
+}
+
+function PdfPage({ pdf, pageNumber, width, height, scale, spans, scrollToHighlight }: {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  width: number;
+  height: number;
+  scale: number;
+  spans: PageSpan[];
+  scrollToHighlight: boolean;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const firstRectRef = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [rects, setRects] = useState<Rect[]>([]);
+
+  // Pages are only drawn once they come near the viewport
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '600px 0px' });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    let renderTask: { cancel: () => void; promise: Promise<void> } | null = null;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = page.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+
+      renderTask = page.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        canvas,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      } as Parameters<typeof page.render>[0]);
+
+      await renderTask.promise;
+    };
+
+    render().catch(error => {
+      if (error?.name !== 'RenderingCancelledException') {
+        console.warn(`Failed to render page ${pageNumber}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [visible, pdf, pageNumber, scale]);
+
+  useEffect(() => {
+    if (spans.length === 0) {
+      setRects(previous => (previous.length > 0 ? [] : previous));
+      return;
+    }
+
+    let cancelled = false;
+
+    const measure = async () => {
+      const { Util } = await import('pdfjs-dist');
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      if (cancelled) return;
+
+      setRects(highlightRects(
+        textContent.items as Array<{ str?: string; transform?: number[]; width?: number }>,
+        page.getViewport({ scale }),
+        spans,
+        Util.transform
+      ));
+    };
+
+    measure().catch(error => console.warn(`Failed to highlight page ${pageNumber}:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNumber, scale, spans]);
+
+  useEffect(() => {
+    if (scrollToHighlight && rects.length > 0) {
+      firstRectRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [rects, scrollToHighlight]);
+
+  return (
+    <div
+      ref={containerRef}
+      data-page={pageNumber}
+      className="relative mx-auto bg-white shadow-sm"
+      style={{ width, height, marginBottom: PAGE_GAP }}
+    >
+      <canvas ref={canvasRef} style={{ width, height }} />
+      {rects.map((rect, index) => (
+        <div
+          key={index}
+          ref={index === 0 ? firstRectRef : undefined}
+          className="absolute bg-yellow-300/50 mix-blend-multiply rounded-sm pointer-events-none"
+          style={rect}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Scrolling PDF viewer drawn with pdf.js, so cited passages can be marked on
+ * the page. Pages render lazily as they scroll into view.
+ */
+export function PdfViewer({ url, page, navigationKey, highlights = NO_SPANS }: PdfViewerProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<Array<{ width: number; height: number }>>([]);
+  const [scale, setScale] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const spansByPage = useMemo(() => {
+    const byPage = new Map<number, PageSpan[]>();
+    for (const span of highlights) {
+      byPage.set(span.page, [...(byPage.get(span.page) || []), span]);
+    }
+    return byPage;
+  }, [highlights]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    const load = async () => {
+      const { getDocument, GlobalWorkerOptions } = await import('pdfjs-dist');
+      GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+
+      loaded = await getDocument(url).promise;
+      if (cancelled) return;
+
+      // Fit the first page to the pane width; later pages keep their own proportions
+      const firstPage = await loaded.getPage(1);
+      const paneWidth = (scrollRef.current?.clientWidth || 800) - 32;
+      const fitScale = paneWidth / firstPage.getViewport({ scale: 1 }).width;
+
+      const sizes = [];
+      for (let number = 1; number <= loaded.numPages; number++) {
+        const viewport = (await loaded.getPage(number)).getViewport({ scale: fitScale });
+        sizes.push({ width: viewport.width, height: viewport.height });
+      }
+      if (cancelled) return;
+
+      setScale(fitScale);
+      setPageSizes(sizes);
+      setPdf(loaded);
+      setError(null);
+    };
+
+    load().catch(err => {
+      console.error('PDF load error:', err);
+      if (!cancelled) setError('Could not load the PDF.');
+    });
+
+    return () => {
+      cancelled = true;
+      setPdf(null);
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pdf || !page) return;
+    const element = scrollRef.current?.querySelector(`[data-page="${page}"]`);
+    element?.scrollIntoView({ block: 'start' });
+  }, [pdf, page, navigationKey]);
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400 px-6 text-sm">
+        {error}
+      </div>
+    );
+  }
+
+  const firstHighlightedPage = highlights[0]?.page;
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto px-4 py-4">
+      {!pdf ? (
+        <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        pageSizes.map((size, index) => {
+          const pageNumber = index + 1;
+          return (
+            <PdfPage
+              key={pageNumber}
+              pdf={pdf}
+              pageNumber={pageNumber}
+              width={size.width}
+              height={size.height}
+              scale={scale}
+              spans={spansByPage.get(pageNumber) || NO_SPANS}
+              scrollToHighlight={pageNumber === firstHighlightedPage}
+            />
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { describeProgress, progressFraction, ProcessingProgress } from "@/lib/rag/progress";
+
+interface ProcessingProgressBarProps {
+  progress?: ProcessingProgress;
+  // Smaller text and bar for paper cards
+  compact?: boolean;
+  className?: string;
+}
+
+export function ProcessingProgressBar({ progress, compact = false, className = "" }: ProcessingProgressBarProps) {
+  const label = progress ? describeProgress(progress) : "Waiting to start";
+  const percent = Math.round((progress ? progressFraction(progress) : 0) * 100);
+
+  return (
+    <div className={`w-full ${className}`} title={label}>
+      <div className={`w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden ${compact ? "h-1" : "h-1.5"}`}>
+        <div
+          className="h-full bg-indigo-600 dark:bg-indigo-400 rounded-full transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className={`mt-1 text-gray-500 dark:text-gray-400 truncate ${compact ? "text-[10px]" : "text-xs"}`}>
+        {label}
+      </p>
+    </div>
+  );
+}
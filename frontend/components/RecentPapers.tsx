@@ -8,6 +8,7 @@ import { useAlert } from "@/lib/contexts/AlertContext";
 import { useConfirm } from "@/lib/contexts/ConfirmContext";
 import { usePapers, useRecentReads, Paper } from "@/lib/hooks/useApi";
 import { useStats } from "@/lib/contexts/StatsContext";
+import { documentTypeOfPath } from "@/lib/rag/document_types";
 import {
   getPreviewImage,
   setPreviewImage,
@@ -75,7 +76,7 @@ export function RecentPapers() {
   const generatePreviewImages = async (paperList: Paper[]) => {
     await Promise.all(
       paperList.map(async (paper) => {
-        if (paper.storage_path) {
+        if (paper.storage_path && documentTypeOfPath(paper.storage_path) === 'pdf') {
           const signed = await supabase.storage
             .from('papers')
             .createSignedUrl(paper.storage_path, 60 * 60);
@@ -7,6 +7,23 @@ import { useRouter } from "next/navigation";
 import { useAlert } from "@/lib/contexts/AlertContext";
 import { useStats } from "@/lib/contexts/StatsContext";
 import { useData } from "@/lib/contexts/DataContext";
+import { useProcessingProgress } from "@/lib/hooks/useProcessingProgress";
+import { ProcessingProgressBar } from "@/frontend/components/ProcessingProgressBar";
+import type { DuplicateMatch } from "@/lib/rag/fingerprint";
+import {
+  DOCUMENT_ACCEPT,
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LIST,
+  contentTypeOf,
+  documentTypeOf,
+  stripDocumentExtension,
+} from "@/lib/rag/document_types";
+
+// Shown in the drop zone: "PDF, Word, Markdown, ..."
+const DOCUMENT_LABELS = DOCUMENT_TYPE_LIST.map(type => DOCUMENT_TYPES[type].label).join(", ");
+
+// What to do with an upload that looks like a paper already in the library
+type DuplicateResolution = { versionOf: string | null };
 
 export function UploadSection() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -17,6 +34,7 @@ export function UploadSection() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string>("");
   const [openImmediately, setOpenImmediately] = useState(true);
+  const [duplicate, setDuplicate] = useState<{ match: DuplicateMatch; source: 'file' | 'url' } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
   const supabase = useSupabase();
@@ -28,6 +46,21 @@ export function UploadSection() {
   const paperCount = papers?.length || 0;
   const isLimitReached = paperCount >= MAX_PAPERS;
 
+  // Uploads still being processed, with their live progress
+  const processingPapers = (papers || []).filter(
+    p => p.processing_status === 'pending' || p.processing_status === 'processing'
+  );
+  const processingProgress = useProcessingProgress(processingPapers.map(p => p.id));
+  const finishedCount = processingPapers.filter(p =>
+    processingProgress[p.id]?.status === 'completed' || processingProgress[p.id]?.status === 'failed'
+  ).length;
+
+  useEffect(() => {
+    if (finishedCount > 0) {
+      refreshPapers();
+    }
+  }, [finishedCount, refreshPapers]);
+
   // Validate URL when it changes
   useEffect(() => {
     if (!pdfUrl.trim()) {
@@ -58,14 +91,18 @@ export function UploadSection() {
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type === "application/pdf") {
+    if (file && !documentTypeOf(file.name, file.type)) {
+      showWarning(`Unsupported file type. Supported formats: ${DOCUMENT_LABELS}.`);
+      return;
+    }
+    if (file) {
       const maxSize = 5 * 1024 * 1024;
       if (file.size > maxSize) {
-        showWarning("File size exceeds 5MB limit. Please select a smaller PDF file.");
+        showWarning("File size exceeds 5MB limit. Please select a smaller file.");
         return;
       }
       setSelectedFile(file);
-      const nameWithoutExtension = file.name.replace('.pdf', '');
+      const nameWithoutExtension = stripDocumentExtension(file.name);
       setDocumentName(nameWithoutExtension);
       // Clear URL when file is selected
       setPdfUrl("");
@@ -74,9 +111,25 @@ export function UploadSection() {
     }
   };
 
-  const handleSubmit = async (file?: File) => {
+  // Best existing match for the upload, or null; a failed check never blocks the upload
+  const findDuplicate = async (body: FormData | { url: string }): Promise<DuplicateMatch | null> => {
+    try {
+      const response = await fetch('/api/papers/duplicates', body instanceof FormData
+        ? { method: 'POST', body }
+        : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      if (!response.ok) return null;
+      const { data } = await response.json();
+      return data.matches[0] || null;
+    } catch (err) {
+      console.warn('Duplicate check failed:', err);
+      return null;
+    }
+  };
+
+  const handleSubmit = async (file?: File, resolution?: DuplicateResolution) => {
     setIsProcessing(true);
-    setProcessingStatus("Uploading PDF...");
+    setDuplicate(null);
+    setProcessingStatus("Uploading document...");
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -91,12 +144,25 @@ export function UploadSection() {
 
       if (file || selectedFile) {
         fileToProcess = (file || selectedFile)!;
-        paperTitle = documentName || fileToProcess.name.replace('.pdf', '');
+        paperTitle = documentName || stripDocumentExtension(fileToProcess.name);
         source = 'file upload';
       } else {
         throw new Error('No file provided');
       }
 
+      if (!resolution) {
+        setProcessingStatus("Checking your library...");
+        const formData = new FormData();
+        formData.append('file', fileToProcess);
+        const match = await findDuplicate(formData);
+        if (match) {
+          setDuplicate({ match, source: 'file' });
+          setIsProcessing(false);
+          return;
+        }
+        setProcessingStatus("Uploading document...");
+      }
+
       const estimatedPageCount = await getPageCount(fileToProcess);
 
       // Create paper record with pending status
@@ -120,12 +186,13 @@ export function UploadSection() {
       // Upload file to storage
       setProcessingStatus("Saving file...");
       try {
-        const storagePath = `${user.id}/${paper.id}.pdf`;
+        const documentType = documentTypeOf(fileToProcess.name, fileToProcess.type) ?? 'pdf';
+        const storagePath = `${user.id}/${paper.id}${DOCUMENT_TYPES[documentType].extensions[0]}`;
         const { error: uploadError } = await supabase.storage
           .from('papers')
           .upload(storagePath, fileToProcess, {
             cacheControl: '3600',
-            contentType: 'application/pdf',
+            contentType: contentTypeOf(documentType),
             upsert: true,
           });
 
@@ -139,7 +206,7 @@ export function UploadSection() {
         console.warn('Storage upload error:', storageErr);
       }
 
-      // Start background processing (fire and forget)
+      // Queue processing on the server; it carries on if this tab is closed
       const formData = new FormData();
       formData.append('file', fileToProcess);
       formData.append('paper_id', paper.id);
@@ -205,14 +272,18 @@ export function UploadSection() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const file = e.dataTransfer.files[0];
-    if (file && file.type === "application/pdf") {
+    if (file && !documentTypeOf(file.name, file.type)) {
+      showWarning(`Unsupported file type. Supported formats: ${DOCUMENT_LABELS}.`);
+      return;
+    }
+    if (file) {
       const maxSize = 5 * 1024 * 1024;
       if (file.size > maxSize) {
         showWarning("File size exceeds 5MB limit.");
         return;
       }
       setSelectedFile(file);
-      const nameWithoutExtension = file.name.replace('.pdf', '');
+      const nameWithoutExtension = stripDocumentExtension(file.name);
       setDocumentName(nameWithoutExtension);
       setPdfUrl("");
       setUrlError("");
@@ -224,10 +295,11 @@ export function UploadSection() {
     e.preventDefault();
   };
 
-  const handleUrlSubmit = async () => {
+  const handleUrlSubmit = async (resolution?: DuplicateResolution) => {
     if (!pdfUrl || !documentName.trim() || !isValidUrl) return;
 
     setIsProcessing(true);
+    setDuplicate(null);
     setProcessingStatus("Saving paper...");
 
     try {
@@ -237,6 +309,15 @@ export function UploadSection() {
         return;
       }
 
+      if (!resolution) {
+        const match = await findDuplicate({ url: pdfUrl });
+        if (match) {
+          setDuplicate({ match, source: 'url' });
+          setIsProcessing(false);
+          return;
+        }
+      }
+
       // Create paper record with pending status
       const { data: paper, error: paperError } = await supabase
         .from('papers')
@@ -255,7 +336,7 @@ export function UploadSection() {
 
       if (paperError) throw paperError;
 
-      // Start background processing (fire and forget)
+      // Download and queue processing on the server; it carries on if this tab is closed
       fetch('/api/papers/upload-url', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -306,8 +387,50 @@ export function UploadSection() {
     }
   };
 
+  // Stores the file as the next version of an existing paper, keeping its chat sessions
+  const replaceExisting = async (file: File, paperId: string) => {
+    setIsProcessing(true);
+    setDuplicate(null);
+    setProcessingStatus("Uploading new version...");
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/papers/${paperId}`, { method: 'PUT', body: formData });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Upload failed');
+
+      refreshPapers();
+
+      if (!openImmediately) {
+        showSuccess(`Processing version ${body.data.versionNumber}`);
+        resetForm();
+        return;
+      }
+
+      router.push(`/chat-new?paper=${paperId}`);
+    } catch (error: any) {
+      showError(`Failed to upload new version: ${error?.message || 'Unknown error'}`);
+      resetForm();
+    }
+  };
+
+  // Files can replace the matched paper's file; a URL's PDF is only fetched
+  // after its paper exists, so URLs are only offered "Upload anyway"
+  const resolveDuplicate = (resolution: DuplicateResolution) => {
+    if (duplicate?.source === 'url') {
+      handleUrlSubmit(resolution);
+    } else if (resolution.versionOf && selectedFile) {
+      replaceExisting(selectedFile, resolution.versionOf);
+    } else {
+      handleSubmit(selectedFile || undefined, resolution);
+    }
+  };
+
   const resetForm = () => {
     setIsProcessing(false);
+    setDuplicate(null);
     setProcessingStatus("");
     setSelectedFile(null);
     setDocumentName("");
@@ -339,6 +462,56 @@ export function UploadSection() {
               </p>
             </div>
           </div>
+        ) : duplicate ? (
+          <div className="border-2 border-dashed border-yellow-300 dark:border-yellow-600 rounded-lg p-6 bg-yellow-50 dark:bg-yellow-900/20">
+            <div className="space-y-3">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="h-6 w-6 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    This looks like an existing paper
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {duplicate.match.exact
+                      ? `Same file as "${duplicate.match.title}"`
+                      : `${Math.round(duplicate.match.similarity * 100)}% similar to "${duplicate.match.title}"`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setDuplicate(null)}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="flex flex-col gap-2">
+                <button
+                  onClick={() => {
+                    const paperId = duplicate.match.paperId;
+                    resetForm();
+                    router.push(`/chat-new?paper=${paperId}`);
+                  }}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  Open existing
+                </button>
+                {duplicate.source === 'file' && (
+                  <button
+                    onClick={() => resolveDuplicate({ versionOf: duplicate.match.paperId })}
+                    className="w-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Upload as new version
+                  </button>
+                )}
+                <button
+                  onClick={() => resolveDuplicate({ versionOf: null })}
+                  className="w-full text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 text-sm py-1 transition-colors"
+                >
+                  Upload anyway
+                </button>
+              </div>
+            </div>
+          </div>
         ) : isProcessing ? (
           <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 text-center">
             <div className="space-y-3">
@@ -441,7 +614,7 @@ export function UploadSection() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf"
+                accept={DOCUMENT_ACCEPT}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -450,10 +623,10 @@ export function UploadSection() {
                   <Plus className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
                 </div>
                 <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Drop PDF here or click to browse
+                  Drop a document here or click to browse
                 </p>
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Max 5MB
+                  {DOCUMENT_LABELS} · Max 5MB
                 </p>
               </div>
             </div>
@@ -531,7 +704,7 @@ export function UploadSection() {
                 </div>
 
                 <button
-                  onClick={handleUrlSubmit}
+                  onClick={() => handleUrlSubmit()}
                   disabled={!documentName.trim()}
                   className={`w-full text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed ${
                     openImmediately
@@ -545,6 +718,19 @@ export function UploadSection() {
             )}
           </div>
         )}
+
+        {processingPapers.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            {processingPapers.map(paper => (
+              <div key={paper.id}>
+                <p className="text-xs font-medium text-gray-700 dark:text-gray-300 truncate mb-1">
+                  {paper.title}
+                </p>
+                <ProcessingProgressBar progress={processingProgress[paper.id]} compact />
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,18 @@
+// Runs the document processing loop inside long-running Next.js servers
+// (`npm run dev`, `npm run start`). Serverless deployments have no process
+// to poll from and rely on the queue being drained after each upload;
+// PROCESSING_WORKER=true|false overrides the default.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const enabled = process.env.PROCESSING_WORKER
+    ? process.env.PROCESSING_WORKER === 'true'
+    : !process.env.VERCEL
+
+  if (enabled) {
+    const { getProcessingQueue } = await import('@/lib/rag/ingestion')
+    getProcessingQueue().start()
+  }
+}
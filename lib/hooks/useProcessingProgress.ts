@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useSupabase } from '@/lib/hooks/useSupabase';
+import { ProcessingProgress, ProcessingStatusRow, progressFromRow } from '@/lib/rag/progress';
+
+const FALLBACK_POLL_INTERVAL = 5000;
+const PROGRESS_COLUMNS = 'paper_id, status, stage, processed_chunks, total_chunks, eta_seconds, error_message';
+
+// Realtime hands back the existing channel for a repeated name, so every
+// subscription gets its own
+let channelCount = 0;
+
+/**
+ * Live processing progress for the given papers, keyed by paper ID. Follows
+ * document_processing_status through Supabase Realtime and polls only while
+ * the realtime channel is unavailable.
+ */
+export function useProcessingProgress(paperIds: string[]): Record<string, ProcessingProgress> {
+  const supabase = useSupabase();
+  const [progress, setProgress] = useState<Record<string, ProcessingProgress>>({});
+  const key = [...new Set(paperIds)].sort().join(',');
+
+  useEffect(() => {
+    if (!key) return;
+
+    const ids = key.split(',');
+    let cancelled = false;
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+
+    const apply = (rows: ProcessingStatusRow[]) => {
+      if (cancelled || rows.length === 0) return;
+      setProgress(previous => {
+        const next = { ...previous };
+        for (const row of rows) {
+          next[row.paper_id] = progressFromRow(row);
+        }
+        return next;
+      });
+    };
+
+    const load = async () => {
+      const { data } = await supabase
+        .from('document_processing_status')
+        .select(PROGRESS_COLUMNS)
+        .in('paper_id', ids);
+
+      apply(data || []);
+    };
+
+    const channel = supabase
+      .channel(`processing-progress-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'document_processing_status', filter: `paper_id=in.(${key})` },
+        payload => {
+          const row = payload.new as ProcessingStatusRow;
+          if (row?.paper_id) apply([row]);
+        }
+      )
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          if (pollInterval) {
+            clearInterval(pollInterval);
+            pollInterval = null;
+          }
+          // Catch up on changes made before the subscription was live
+          load();
+        } else if ((status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') && !pollInterval) {
+          pollInterval = setInterval(load, FALLBACK_POLL_INTERVAL);
+        }
+      });
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (pollInterval) clearInterval(pollInterval);
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, key]);
+
+  return progress;
+}
@@ -0,0 +1,194 @@
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+/**
+ * In-memory stand-in for the Supabase client: the query-builder calls the
+ * ingestion and retrieval code makes, over plain arrays, plus the
+ * match_paper_chunks_optimized RPC. Columns passed to `select` are not
+ * projected; every row comes back whole.
+ */
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+
+  reset(): void {
+    this.tables = {};
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= []);
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this.rows(table));
+  }
+
+  async rpc(name: string, args: Row): Promise<{ data: Row[] | null; error: { message: string } | null }> {
+    if (name !== 'match_paper_chunks_optimized') {
+      return { data: null, error: { message: `Unknown function ${name}` } };
+    }
+
+    // Like the SQL function, only the current version of each paper is searched
+    const currentVersions = new Map(this.rows('papers').map(paper => [paper.id, paper.current_version_id]));
+    const chunkTypes = new Map(this.rows('paper_chunks_metadata').map(row => [row.chunk_id, row.chunk_type]));
+    const { paper_id: paperId, paper_ids: paperIds } = args.filter ?? {};
+
+    const data = this.rows('paper_chunks')
+      .filter(chunk => chunk.version_id === currentVersions.get(chunk.paper_id))
+      .filter(chunk => !paperId || chunk.paper_id === paperId)
+      .filter(chunk => !paperIds || paperIds.includes(chunk.paper_id))
+      .map(chunk => ({
+        ...chunk,
+        chunk_type: chunkTypes.get(chunk.id),
+        similarity: cosineSimilarity(args.query_embedding, chunk.embedding),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, args.match_count);
+
+    return { data, error: null };
+  }
+}
+
+// Not imported from vector_store: this module is loaded while
+// @supabase/supabase-js is being mocked, before vector_store may import it
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+class FakeQuery implements PromiseLike<{ data: any; error: any }> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private payload: Row[] | Row = [];
+  private returning = false;
+  private filters: Filter[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private window: [number, number] | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private table: Row[]) {}
+
+  select(): this {
+    // After insert, select() asks for the inserted rows back
+    if (this.operation === 'insert') {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(rows: Row[] | Row): this {
+    this.operation = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null): this {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = [from, to + 1];
+    return this;
+  }
+
+  limit(count: number): this {
+    this.window = [0, count];
+    return this;
+  }
+
+  single(): this {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = { data: any; error: any }, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: any }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): { data: any; error: any } {
+    const matches = () => this.table.filter(row => this.filters.every(filter => filter(row)));
+
+    switch (this.operation) {
+      case 'insert': {
+        const inserted = (Array.isArray(this.payload) ? this.payload : [this.payload])
+          .map(row => ({ id: crypto.randomUUID(), ...row }));
+        this.table.push(...inserted);
+        return this.result(this.returning ? inserted : null);
+      }
+      case 'update':
+        for (const row of matches()) {
+          Object.assign(row, this.payload);
+        }
+        return { data: null, error: null };
+      case 'delete': {
+        const removed = new Set(matches());
+        this.table.splice(0, this.table.length, ...this.table.filter(row => !removed.has(row)));
+        return { data: null, error: null };
+      }
+      default: {
+        let rows = matches().map(row => ({ ...row }));
+        if (this.ordering) {
+          const { column, ascending } = this.ordering;
+          rows.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+        }
+        if (this.window) {
+          rows = rows.slice(...this.window);
+        }
+        return this.result(rows);
+      }
+    }
+  }
+
+  private result(rows: Row[] | null): { data: any; error: any } {
+    if (this.mode === 'many' || rows === null) {
+      return { data: rows, error: null };
+    }
+    if (rows.length === 1) {
+      return { data: rows[0], error: null };
+    }
+    if (rows.length === 0 && this.mode === 'maybeSingle') {
+      return { data: null, error: null };
+    }
+    return { data: null, error: { code: 'PGRST116', message: `Expected one row, got ${rows.length}` } };
+  }
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClient } from '@supabase/supabase-js';
+import { DocumentProcessor } from '../document_processor';
+import { VectorStoreManager } from '../vector_store';
+import { RAGChain } from '../rag_chain';
+import { ScriptedChatModel } from '../chat_models';
+import { createEmbeddingProvider } from '../embeddings';
+import { FakeSupabase } from './fake_supabase';
+
+// Every createClient call returns the same in-memory database, so what the
+// processor stores is what the vector store searches
+vi.mock('@supabase/supabase-js', async () => {
+  const { FakeSupabase } = await import('./fake_supabase');
+  const client = new FakeSupabase();
+  return { createClient: () => client };
+});
+
+const db = createClient('http://localhost', 'test-key') as unknown as FakeSupabase;
+
+const PAPER_ID = 'paper-1';
+const CONTEXT = { sessionId: 'session-1', messages: [], paperId: PAPER_ID };
+
+const PAPER_TEXT = [
+  'Coral reefs cover less than one percent of the ocean floor but support about a quarter of all marine species.',
+  'Rising sea temperatures cause coral bleaching: the corals expel the algae living in their tissue and turn white.',
+  'The survey counted 412 bleached colonies across the northern transects in 2023, twice the number seen in 2019.',
+  'Seagrass meadows store carbon in their sediments and shelter juvenile fish before they move out to the reef.',
+].join('\n\n');
+
+function createPipeline(llm: ScriptedChatModel) {
+  const embeddings = createEmbeddingProvider('hash', '');
+
+  const processor = new DocumentProcessor('http://localhost', 'test-key', '', {
+    embeddings,
+    embeddingCache: false,
+    chunkSize: 150,
+    chunkOverlap: 0,
+  });
+
+  const vectorStore = new VectorStoreManager({
+    type: 'supabase',
+    supabaseUrl: 'http://localhost',
+    supabaseKey: 'test-key',
+    openaiApiKey: '',
+    embeddings,
+  });
+
+  const chain = new RAGChain({ openaiApiKey: '', llm }, vectorStore);
+
+  return { processor, chain };
+}
+
+describe('ingestion and retrieval without an API key', () => {
+  beforeEach(() => {
+    db.reset();
+    db.rows('papers').push({ id: PAPER_ID, current_version_id: null, storage_path: 'papers/paper-1.txt' });
+  });
+
+  it('stores hashed chunks for the paper and answers from the best matching one', async () => {
+    const llm = new ScriptedChatModel(['About 412 colonies were bleached.']);
+    const { processor, chain } = createPipeline(llm);
+
+    const result = await processor.ingest(PAPER_ID, Buffer.from(PAPER_TEXT), 'txt');
+
+    expect(result.success).toBe(true);
+    expect(result.chunksCreated).toBe(4);
+
+    const [paper] = db.rows('papers');
+    const chunks = db.rows('paper_chunks');
+    expect(paper.current_version_id).toBeTruthy();
+    expect(chunks).toHaveLength(4);
+    expect(chunks.every(chunk => chunk.version_id === paper.current_version_id)).toBe(true);
+    expect(chunks.every(chunk => chunk.embedding.length === 1536 && chunk.embedding_model === 'hashing')).toBe(true);
+    expect(db.rows('paper_chunks_metadata')).toHaveLength(4);
+    expect(db.rows('document_processing_status')[0]).toMatchObject({ status: 'completed', total_chunks: 4 });
+
+    const response = await chain.query(
+      'How many bleached colonies did the survey count?',
+      CONTEXT,
+      { searchType: 'similarity' }
+    );
+
+    expect(response.answer).toBe('About 412 colonies were bleached.');
+    expect(response.sources[0].content).toContain('412 bleached colonies');
+
+    // The model read the chunk's parent span, which holds the whole short
+    // paper, and the question last
+    const [messages] = llm.calls;
+    expect(messages.map(message => String(message.content)).join('\n')).toContain('Coral reefs cover');
+    expect(messages[messages.length - 1].content).toBe('How many bleached colonies did the survey count?');
+  });
+
+  it('replaces the chunks of the current version when it is ingested again', async () => {
+    const { processor, chain } = createPipeline(new ScriptedChatModel());
+
+    await processor.ingest(PAPER_ID, Buffer.from(PAPER_TEXT), 'txt');
+    const firstIds = db.rows('paper_chunks').map(chunk => chunk.id);
+
+    const result = await processor.ingest(PAPER_ID, Buffer.from(PAPER_TEXT), 'txt');
+
+    expect(result.success).toBe(true);
+    expect(db.rows('paper_versions')).toHaveLength(1);
+    expect(db.rows('paper_chunks')).toHaveLength(4);
+    expect(db.rows('paper_chunks').some(chunk => firstIds.includes(chunk.id))).toBe(false);
+
+    // Without scripted responses the model echoes the question
+    const response = await chain.query('seagrass carbon', CONTEXT, { searchType: 'similarity' });
+    expect(response.answer).toBe('seagrass carbon');
+    expect(response.sources[0].content).toContain('Seagrass meadows');
+  });
+});
@@ -0,0 +1,140 @@
+import { BaseChatModel, SimpleChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseMessage } from '@langchain/core/messages';
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { RAGConfig } from './config';
+import {
+  CHAT_PROVIDERS,
+  ChatProviderSettings,
+  ChatProviderType,
+  DEFAULT_CHAT_MODELS,
+  ScriptedResponse,
+} from './constants';
+
+export interface ChatModelSelection {
+  provider?: ChatProviderType;
+  model?: string;
+}
+
+export interface ChatModelOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export function isChatProvider(value: unknown): value is ChatProviderType {
+  return CHAT_PROVIDERS.includes(value as ChatProviderType);
+}
+
+/**
+ * Offline chat model that replies from a script and records every prompt it
+ * receives in `calls`. Each response is used once and the last one repeats;
+ * with no script it echoes the latest human message.
+ */
+export class ScriptedChatModel extends SimpleChatModel {
+  readonly calls: BaseMessage[][] = [];
+  private responses: ScriptedResponse[];
+  private nextResponse = 0;
+
+  constructor(responses: ScriptedResponse[] = []) {
+    super({});
+    this.responses = responses;
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    this.calls.push(messages);
+
+    if (this.responses.length === 0) {
+      const question = [...messages].reverse().find(message => message.getType() === 'human');
+      return question ? String(question.content) : '';
+    }
+
+    const response = this.responses[Math.min(this.nextResponse++, this.responses.length - 1)];
+    return typeof response === 'function' ? response(messages) : response;
+  }
+}
+
+/**
+ * The chat providers a deployment has credentials for. Models are created on
+ * demand, so a request can pick another configured provider or model without
+ * touching the default.
+ */
+export class ChatModelRegistry {
+  private providers: Partial<Record<ChatProviderType, ChatProviderSettings>>;
+  readonly defaultProvider: ChatProviderType;
+
+  constructor(
+    providers: Partial<Record<ChatProviderType, ChatProviderSettings>>,
+    defaultProvider: ChatProviderType = 'openai'
+  ) {
+    if (!providers[defaultProvider]) {
+      throw new Error(`Chat provider "${defaultProvider}" is not configured`);
+    }
+    this.providers = providers;
+    this.defaultProvider = defaultProvider;
+  }
+
+  available(): ChatProviderType[] {
+    return CHAT_PROVIDERS.filter(provider => this.providers[provider]);
+  }
+
+  has(provider: unknown): provider is ChatProviderType {
+    return isChatProvider(provider) && !!this.providers[provider];
+  }
+
+  create(selection: ChatModelSelection = {}, options: ChatModelOptions = {}): BaseChatModel {
+    const provider = selection.provider || this.defaultProvider;
+    const settings = this.providers[provider];
+    if (!settings) {
+      throw new Error(`Chat provider "${provider}" is not configured`);
+    }
+
+    const model = selection.model || settings.model;
+    const { temperature, maxTokens } = options;
+
+    switch (provider) {
+      case 'anthropic':
+        return new ChatAnthropic({ apiKey: settings.apiKey, model, temperature, maxTokens });
+      case 'local':
+        return new ChatOpenAI({
+          // Local servers ignore the key, but the client refuses to start without one
+          openAIApiKey: settings.apiKey || 'local',
+          modelName: model,
+          temperature,
+          maxTokens,
+          configuration: { baseURL: settings.baseUrl },
+        });
+      case 'fake':
+        return new ScriptedChatModel(settings.responses);
+      default:
+        return new ChatOpenAI({ openAIApiKey: settings.apiKey, modelName: model, temperature, maxTokens });
+    }
+  }
+}
+
+/**
+ * Registers every provider the config has credentials for. The fake provider
+ * is only registered when it is the configured default.
+ */
+export function createChatModelRegistry(config: RAGConfig): ChatModelRegistry {
+  const { chat, openai } = config;
+  const providers: Partial<Record<ChatProviderType, ChatProviderSettings>> = {};
+
+  if (openai.apiKey) {
+    providers.openai = { apiKey: openai.apiKey, model: openai.model };
+  }
+  if (chat.anthropic?.apiKey) {
+    providers.anthropic = chat.anthropic;
+  }
+  if (chat.local?.baseUrl) {
+    providers.local = chat.local;
+  }
+  if (chat.provider === 'fake') {
+    providers.fake = { model: DEFAULT_CHAT_MODELS.fake };
+  }
+
+  return new ChatModelRegistry(providers, chat.provider);
+}
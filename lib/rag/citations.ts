@@ -0,0 +1,49 @@
+import type { PageSpan } from './pages';
+
+// Citation shape stored in chat_messages.metadata.citations; the chat UI renders
+// these as badges and the chat export lists their pages. Kept free of
+// server-only imports for the chat UI. A type alias rather than an interface so
+// it can be stored as Json.
+export type MessageCitation = {
+  chunkId?: string;
+  paperId?: string;
+  // Paper version the answer was grounded in; absent before papers had versions
+  versionId?: string;
+  version?: number;
+  // Set when the passage is a table's cells; `table` is its label ("Table 2")
+  tableId?: string;
+  table?: string;
+  page_no: number;
+  end_page_no?: number | null;
+  score: number;
+  text: string;
+  spans?: PageSpan[];
+};
+
+export function citationsFromSources(sources: Array<{
+  chunkId?: string;
+  paperId?: string;
+  versionId?: string | null;
+  versionNumber?: number | null;
+  tableId?: string | null;
+  tableLabel?: string | null;
+  content: string;
+  pageNumber?: number;
+  endPageNumber?: number;
+  score?: number;
+  pageSpans?: PageSpan[];
+}> = []): MessageCitation[] {
+  return sources.map(source => ({
+    chunkId: source.chunkId,
+    paperId: source.paperId,
+    versionId: source.versionId ?? undefined,
+    version: source.versionNumber ?? undefined,
+    tableId: source.tableId ?? undefined,
+    table: source.tableId ? source.tableLabel || 'Table' : undefined,
+    page_no: source.pageNumber || 0,
+    end_page_no: source.endPageNumber ?? source.pageNumber ?? null,
+    score: source.score || 0,
+    text: source.content,
+    spans: source.pageSpans?.length ? source.pageSpans : undefined,
+  }));
+}
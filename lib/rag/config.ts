@@ -1,12 +1,34 @@
+import {
+  CHAT_PROVIDERS,
+  ChatProviderSettings,
+  ChatProviderType,
+  DEFAULT_CHAT_MODELS,
+  DEFAULT_EMBEDDING_MODELS,
+  EMBEDDING_COLUMN_DIMENSIONS,
+  EmbeddingProviderType,
+  MAX_QUERY_VARIANTS,
+} from './constants';
+
 export interface RAGConfig {
   openai: {
     apiKey: string;
     model: string;
-    embeddingModel: string;
+    // Model for paper summaries when OpenAI is the provider; cheaper than `model`
+    summaryModel: string;
     temperature: number;
     maxTokens: number;
     streamingEnabled: boolean;
   };
+  chat: {
+    provider: ChatProviderType;
+    anthropic?: ChatProviderSettings;
+    local?: ChatProviderSettings;
+  };
+  embeddings: {
+    provider: EmbeddingProviderType;
+    model: string;
+    dimensions: number;
+  };
   vectorStore: {
     type: 'chroma' | 'supabase';
     chromaUrl?: string;
@@ -15,6 +37,7 @@ export interface RAGConfig {
   chunking: {
     chunkSize: number;
     chunkOverlap: number;
+    parentChunkSize: number;
     semanticChunking: boolean;
     minChunkSize: number;
     maxChunkSize: number;
@@ -25,7 +48,14 @@ export interface RAGConfig {
     scoreThreshold: number;
     searchType: 'similarity' | 'mmr' | 'hybrid';
     hybridAlpha: number;
+    fusionMethod: 'weighted' | 'rrf';
     rerankingEnabled: boolean;
+    rerankerType: 'llm' | 'lexical';
+    rerankCandidates: number;
+    queryRewriting: boolean;
+    multiQueryCount: number;
+    referencesWeight: number;
+    parentDocumentRetrieval: boolean;
   };
   processing: {
     maxFileSize: number;
@@ -38,6 +68,7 @@ export interface RAGConfig {
     enabled: boolean;
     ttl: number;
     maxCacheSize: number;
+    embeddingCache: boolean;
   };
   monitoring: {
     enabled: boolean;
@@ -50,11 +81,21 @@ export const defaultConfig: RAGConfig = {
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
     model: 'gpt-4-turbo-preview',
-    embeddingModel: 'text-embedding-3-large',
+    summaryModel: 'gpt-3.5-turbo',
     temperature: 0.7,
     maxTokens: 2000,
     streamingEnabled: true,
   },
+  // Default provider for answers and summaries; OpenAI uses the model above
+  chat: {
+    provider: 'openai',
+  },
+  // Used for both ingestion and queries; changing it means re-embedding every paper
+  embeddings: {
+    provider: 'openai',
+    model: DEFAULT_EMBEDDING_MODELS.openai,
+    dimensions: EMBEDDING_COLUMN_DIMENSIONS,
+  },
   vectorStore: {
     type: 'supabase',
     chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
@@ -63,6 +104,7 @@ export const defaultConfig: RAGConfig = {
   chunking: {
     chunkSize: 1000,
     chunkOverlap: 100,
+    parentChunkSize: 4000, // span sent to the model for each matched chunk
     semanticChunking: false,
     minChunkSize: 200,
     maxChunkSize: 2000,
@@ -70,14 +112,21 @@ export const defaultConfig: RAGConfig = {
   retrieval: {
     defaultK: 5,
     maxK: 20,
-    scoreThreshold: 0.7,
+    scoreThreshold: 0.3, // cosine similarity; text-embedding-3 scores rarely exceed 0.6
     searchType: 'hybrid',
     hybridAlpha: 0.5,
+    fusionMethod: 'rrf',
     rerankingEnabled: true,
+    rerankerType: 'lexical',
+    rerankCandidates: 20,
+    queryRewriting: true,
+    multiQueryCount: 0, // paraphrases per question; 0 disables multi-query
+    referencesWeight: 0.5, // score multiplier for reference-list chunks; 1 disables
+    parentDocumentRetrieval: true,
   },
   processing: {
     maxFileSize: 50 * 1024 * 1024, // 50MB
-    supportedFileTypes: ['pdf', 'txt', 'md', 'docx', 'json'],
+    supportedFileTypes: ['pdf', 'docx', 'md', 'txt', 'html', 'epub', 'json'],
     extractMetadata: true,
     ocrEnabled: false,
     languageDetection: true,
@@ -86,6 +135,7 @@ export const defaultConfig: RAGConfig = {
     enabled: true,
     ttl: 3600, // 1 hour
     maxCacheSize: 100,
+    embeddingCache: true, // reuse chunk vectors across reprocessing and duplicate uploads
   },
   monitoring: {
     enabled: true,
@@ -108,6 +158,8 @@ export class ConfigManager {
   ): RAGConfig {
     return {
       openai: { ...base.openai, ...custom.openai },
+      chat: { ...base.chat, ...custom.chat },
+      embeddings: { ...base.embeddings, ...custom.embeddings },
       vectorStore: { ...base.vectorStore, ...custom.vectorStore },
       chunking: { ...base.chunking, ...custom.chunking },
       retrieval: { ...base.retrieval, ...custom.retrieval },
@@ -118,10 +170,40 @@ export class ConfigManager {
   }
 
   private validateConfig(): void {
-    if (!this.config.openai.apiKey) {
+    if (!['openai', 'local', 'hash'].includes(this.config.embeddings.provider)) {
+      throw new Error('Embedding provider must be "openai", "local" or "hash"');
+    }
+
+    if (!CHAT_PROVIDERS.includes(this.config.chat.provider)) {
+      throw new Error(`Chat provider must be one of: ${CHAT_PROVIDERS.join(', ')}`);
+    }
+
+    if (
+      (this.config.embeddings.provider === 'openai' || this.config.chat.provider === 'openai') &&
+      !this.config.openai.apiKey
+    ) {
       throw new Error('OpenAI API key is required');
     }
 
+    if (this.config.chat.provider === 'anthropic' && !this.config.chat.anthropic?.apiKey) {
+      throw new Error('Anthropic API key is required');
+    }
+
+    if (this.config.chat.provider === 'local' && !this.config.chat.local?.baseUrl) {
+      throw new Error('Local chat provider requires a base URL');
+    }
+
+    if (this.config.embeddings.dimensions !== EMBEDDING_COLUMN_DIMENSIONS) {
+      throw new Error(
+        `Embedding dimensions must be ${EMBEDDING_COLUMN_DIMENSIONS} to fit the vector columns, ` +
+          `got ${this.config.embeddings.dimensions}; a different size needs a schema migration`
+      );
+    }
+
+    if (this.config.chunking.minChunkSize >= this.config.chunking.maxChunkSize) {
+      throw new Error('Minimum chunk size must be less than maximum chunk size');
+    }
+
     if (this.config.chunking.chunkSize < this.config.chunking.minChunkSize) {
       throw new Error('Chunk size cannot be less than minimum chunk size');
     }
@@ -134,6 +216,10 @@ export class ConfigManager {
       throw new Error('Chunk overlap must be less than chunk size');
     }
 
+    if (this.config.chunking.parentChunkSize < this.config.chunking.chunkSize) {
+      throw new Error('Parent chunk size cannot be less than chunk size');
+    }
+
     if (this.config.retrieval.defaultK > this.config.retrieval.maxK) {
       throw new Error('Default K cannot exceed max K');
     }
@@ -151,6 +237,28 @@ export class ConfigManager {
     ) {
       throw new Error('Hybrid alpha must be between 0 and 1');
     }
+
+    if (!['weighted', 'rrf'].includes(this.config.retrieval.fusionMethod)) {
+      throw new Error('Fusion method must be either "weighted" or "rrf"');
+    }
+
+    if (this.config.retrieval.rerankCandidates < this.config.retrieval.defaultK) {
+      throw new Error('Rerank candidates cannot be less than default K');
+    }
+
+    if (
+      this.config.retrieval.multiQueryCount < 0 ||
+      this.config.retrieval.multiQueryCount > MAX_QUERY_VARIANTS
+    ) {
+      throw new Error(`Multi-query count must be between 0 and ${MAX_QUERY_VARIANTS}`);
+    }
+
+    if (
+      this.config.retrieval.referencesWeight < 0 ||
+      this.config.retrieval.referencesWeight > 1
+    ) {
+      throw new Error('References weight must be between 0 and 1');
+    }
   }
 
   get(path?: string): any {
@@ -211,15 +319,45 @@ export class ConfigManager {
 }
 
 export function loadConfigFromEnv(): Partial<RAGConfig> {
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER as EmbeddingProviderType) || 'openai';
+
   return {
     openai: {
       apiKey: process.env.OPENAI_API_KEY || '',
       model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
-      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-large',
+      summaryModel: process.env.OPENAI_SUMMARY_MODEL || 'gpt-3.5-turbo',
       temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.7'),
       maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '2000'),
       streamingEnabled: process.env.OPENAI_STREAMING !== 'false',
     },
+    chat: {
+      provider: (process.env.CHAT_PROVIDER as ChatProviderType) || 'openai',
+      anthropic: process.env.ANTHROPIC_API_KEY
+        ? {
+            apiKey: process.env.ANTHROPIC_API_KEY,
+            model: process.env.ANTHROPIC_MODEL || DEFAULT_CHAT_MODELS.anthropic,
+          }
+        : undefined,
+      local: process.env.LOCAL_LLM_BASE_URL
+        ? {
+            baseUrl: process.env.LOCAL_LLM_BASE_URL,
+            apiKey: process.env.LOCAL_LLM_API_KEY,
+            model: process.env.LOCAL_LLM_MODEL || DEFAULT_CHAT_MODELS.local,
+          }
+        : undefined,
+    },
+    embeddings: {
+      provider: embeddingProvider,
+      // OPENAI_EMBEDDING_* are the names used before local providers existed
+      model:
+        process.env.EMBEDDING_MODEL ||
+        (embeddingProvider === 'openai' ? process.env.OPENAI_EMBEDDING_MODEL : undefined) ||
+        DEFAULT_EMBEDDING_MODELS[embeddingProvider] ||
+        DEFAULT_EMBEDDING_MODELS.openai,
+      dimensions: parseInt(
+        process.env.EMBEDDING_DIMENSIONS || process.env.OPENAI_EMBEDDING_DIMENSIONS || String(EMBEDDING_COLUMN_DIMENSIONS)
+      ),
+    },
     vectorStore: {
       type: (process.env.VECTOR_STORE_TYPE as 'chroma' | 'supabase') || 'supabase',
       chromaUrl: process.env.CHROMA_URL,
@@ -228,6 +366,7 @@ export function loadConfigFromEnv(): Partial<RAGConfig> {
     chunking: {
       chunkSize: parseInt(process.env.CHUNK_SIZE || '1000'),
       chunkOverlap: parseInt(process.env.CHUNK_OVERLAP || '100'),
+      parentChunkSize: parseInt(process.env.PARENT_CHUNK_SIZE || '4000'),
       semanticChunking: process.env.SEMANTIC_CHUNKING === 'true',
       minChunkSize: parseInt(process.env.MIN_CHUNK_SIZE || '200'),
       maxChunkSize: parseInt(process.env.MAX_CHUNK_SIZE || '2000'),
@@ -235,15 +374,23 @@ export function loadConfigFromEnv(): Partial<RAGConfig> {
     retrieval: {
       defaultK: parseInt(process.env.RETRIEVAL_K || '5'),
       maxK: parseInt(process.env.RETRIEVAL_MAX_K || '20'),
-      scoreThreshold: parseFloat(process.env.RETRIEVAL_SCORE_THRESHOLD || '0.7'),
+      scoreThreshold: parseFloat(process.env.RETRIEVAL_SCORE_THRESHOLD || '0.3'),
       searchType: (process.env.RETRIEVAL_SEARCH_TYPE as 'similarity' | 'mmr' | 'hybrid') || 'hybrid',
       hybridAlpha: parseFloat(process.env.RETRIEVAL_HYBRID_ALPHA || '0.5'),
+      fusionMethod: (process.env.RETRIEVAL_FUSION_METHOD as 'weighted' | 'rrf') || 'rrf',
       rerankingEnabled: process.env.RETRIEVAL_RERANKING !== 'false',
+      rerankerType: (process.env.RETRIEVAL_RERANKER as 'llm' | 'lexical') || 'lexical',
+      rerankCandidates: parseInt(process.env.RETRIEVAL_RERANK_CANDIDATES || '20'),
+      queryRewriting: process.env.RETRIEVAL_QUERY_REWRITING !== 'false',
+      multiQueryCount: parseInt(process.env.RETRIEVAL_MULTI_QUERY_COUNT || '0'),
+      referencesWeight: parseFloat(process.env.RETRIEVAL_REFERENCES_WEIGHT || '0.5'),
+      parentDocumentRetrieval: process.env.RETRIEVAL_PARENT_DOCUMENTS !== 'false',
     },
     caching: {
       enabled: process.env.CACHING_ENABLED !== 'false',
       ttl: parseInt(process.env.CACHE_TTL || '3600'),
       maxCacheSize: parseInt(process.env.CACHE_MAX_SIZE || '100'),
+      embeddingCache: process.env.EMBEDDING_CACHE_ENABLED !== 'false',
     },
     monitoring: {
       enabled: process.env.MONITORING_ENABLED !== 'false',
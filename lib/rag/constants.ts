@@ -0,0 +1,41 @@
+import type { BaseMessage } from '@langchain/core/messages';
+
+// Provider names, defaults and limits shared by the config and the modules
+// that use them. Kept free of provider SDK imports, so loading the config
+// does not load them.
+
+export type EmbeddingProviderType = 'openai' | 'local' | 'hash';
+
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderType, string> = {
+  openai: 'text-embedding-3-small',
+  local: 'Xenova/all-MiniLM-L6-v2',
+  hash: 'hashing',
+};
+
+// Size of the paper_chunks.embedding and embedding_cache.embedding vector
+// columns; any other size needs a schema migration
+export const EMBEDDING_COLUMN_DIMENSIONS = 1536;
+
+export type ChatProviderType = 'openai' | 'anthropic' | 'local' | 'fake';
+
+export const CHAT_PROVIDERS: ChatProviderType[] = ['openai', 'anthropic', 'local', 'fake'];
+
+export const DEFAULT_CHAT_MODELS: Record<ChatProviderType, string> = {
+  openai: 'gpt-4-turbo-preview',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+  fake: 'scripted',
+};
+
+export type ScriptedResponse = string | ((messages: BaseMessage[]) => string);
+
+export interface ChatProviderSettings {
+  model: string;
+  apiKey?: string;
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string;
+  // Replies of the fake provider, in order
+  responses?: ScriptedResponse[];
+}
+
+export const MAX_QUERY_VARIANTS = 5;
@@ -0,0 +1,118 @@
+import { convert } from 'html-to-text';
+import { strFromU8, unzipSync } from 'fflate';
+
+export interface Chapter {
+  title: string | null;
+  text: string;
+}
+
+// Page furniture of saved web articles; none of it is part of the text
+const SKIPPED_ELEMENTS = ['nav', 'header', 'footer', 'aside', 'form', 'button', 'script', 'style', 'noscript', 'svg', 'img', 'figure > img'];
+
+// Uncompressed bytes read from an EPUB at most, going by the sizes its archive
+// declares; uploads are a few MB, text inflates perhaps tenfold
+const MAX_EPUB_TEXT_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Readable text of an HTML page. Saved web articles keep the article in an
+ * <article> or <main> element; when there is one, only that is converted.
+ */
+export function htmlToText(html: string): string {
+  const base = /<article[\s>]/i.test(html) ? 'article' : /<main[\s>]/i.test(html) ? 'main' : 'body';
+
+  return convert(html, {
+    wordwrap: false,
+    baseElements: { selectors: [base], returnDomByDefault: true },
+    selectors: [
+      { selector: 'a', options: { ignoreHref: true } },
+      ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map(selector => ({ selector, options: { uppercase: false } })),
+      { selector: 'table', format: 'dataTable' },
+      ...SKIPPED_ELEMENTS.map(selector => ({ selector, format: 'skip' })),
+    ],
+  }).trim();
+}
+
+function attributes(tag: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    result[match[1]] = match[3] ?? match[4];
+  }
+  return result;
+}
+
+function resolvePath(base: string, href: string): string {
+  const parts = base ? base.split('/') : [];
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.' && segment !== '') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/**
+ * Chapters of an EPUB in reading order: the spine of its package document,
+ * each content file converted like an HTML page. Chapters without text
+ * (covers, image pages) are left out.
+ */
+export function loadEpub(buffer: Buffer): Chapter[] {
+  const archive = new Uint8Array(buffer);
+  let inflatedSize = 0;
+
+  // Inflates only `paths`, so the rest of the archive (images, fonts, or a
+  // zip bomb) is never expanded
+  const extract = (paths: string[]) => {
+    const wanted = new Set(paths);
+    const files = unzipSync(archive, {
+      filter: file => {
+        if (!wanted.has(file.name)) return false;
+        inflatedSize += file.originalSize;
+        if (inflatedSize > MAX_EPUB_TEXT_SIZE) {
+          throw new Error('EPUB is too large when uncompressed');
+        }
+        return true;
+      },
+    });
+    return (path: string) => (files[path] ? strFromU8(files[path]) : null);
+  };
+
+  const container = extract(['META-INF/container.xml'])('META-INF/container.xml');
+  const rootfile = container?.match(/<rootfile\b[^>]*>/i)?.[0];
+  const packagePath = rootfile && attributes(rootfile)['full-path'];
+  const packageDocument = packagePath && extract([packagePath])(packagePath);
+  if (!packageDocument) {
+    throw new Error('Invalid EPUB: package document not found');
+  }
+
+  const baseDir = packagePath.includes('/') ? packagePath.slice(0, packagePath.lastIndexOf('/')) : '';
+  const manifest = new Map<string, string>();
+  for (const item of packageDocument.match(/<item\b[^>]*>/gi) || []) {
+    const { id, href, 'media-type': mediaType } = attributes(item);
+    // Spine entries are (X)HTML; anything else is not read
+    if (id && href && (!mediaType || /html/i.test(mediaType))) {
+      manifest.set(id, resolvePath(baseDir, href));
+    }
+  }
+
+  const spine = (packageDocument.match(/<itemref\b[^>]*>/gi) || [])
+    .map(itemref => manifest.get(attributes(itemref).idref))
+    .filter((path): path is string => !!path);
+  const read = extract(spine);
+
+  const chapters: Chapter[] = [];
+  for (const path of spine) {
+    const content = read(path);
+    if (!content) continue;
+
+    const text = htmlToText(content);
+    if (text) {
+      const title = content.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i)?.[1];
+      chapters.push({ title: title ? htmlToText(title) : null, text });
+    }
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('EPUB contains no readable text');
+  }
+
+  return chapters;
+}
@@ -1,9 +1,21 @@
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { Document } from '@langchain/core/documents';
-import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
 import { DocxLoader } from '@langchain/community/document_loaders/fs/docx';
 import { createClient } from '@supabase/supabase-js';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { LayoutLine, OutlineHeading, extractOutline, sectionsForChunks, storeOutline } from './outline';
+import { PageText, chunkPositions, joinPages } from './pages';
+import { PDFService } from '@/lib/services/pdf.service';
+import { DocumentSplitter, splitIntoParentsAndChildren, storeParentSpans } from './parent_documents';
+import { SemanticChunker } from './semantic_chunker';
+import { EmbeddingProvider, createEmbeddingProvider } from './embeddings';
+import { EmbeddingCache } from './embedding_cache';
+import { PaperFingerprint, fingerprintText } from './fingerprint';
+import { documentTypeOf } from './document_types';
+import { htmlToText, loadEpub } from './document_loaders';
+import { resolvePaperVersion } from './versions';
+import { extractTables, renderTableChunks, storeTables } from './tables';
+import { isTransientError } from './jobs';
+import { ProcessingStage, estimateSecondsLeft } from './progress';
 
 // Removed unused interface ChunkMetadata
 /*interface ChunkMetadata {
@@ -18,13 +30,81 @@ import { OpenAIEmbeddings } from '@langchain/openai';
 interface ProcessingOptions {
   chunkSize?: number;
   chunkOverlap?: number;
+  parentChunkSize?: number;
   semanticChunking?: boolean;
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  // Must be the provider the vector store embeds queries with
+  embeddings?: EmbeddingProvider;
+  // Reuse vectors for chunk text embedded before (default: true)
+  embeddingCache?: boolean;
   extractMetadata?: boolean;
 }
 
+export interface IngestOptions {
+  // Checked between embedding batches; aborting stops the ingestion and
+  // removes whatever it stored
+  signal?: AbortSignal;
+  // The caller retries transient failures, so they leave the paper pending
+  // instead of failed
+  retryTransient?: boolean;
+  // Version to ingest into; defaults to the paper's current version. A
+  // different version becomes current once it has been ingested.
+  versionId?: string | null;
+}
+
+export interface IngestionResult {
+  success: boolean;
+  chunksCreated: number;
+  pageCount?: number;
+  embeddingCacheHits?: number;
+  embeddingCacheMisses?: number;
+  error?: string;
+  transient?: boolean;
+  cancelled?: boolean;
+}
+
+type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// Everything ingestion stores per paper version, in the order it is removed
+const VERSION_TABLES = ['paper_chunks', 'paper_chunk_parents', 'paper_sections', 'paper_tables'] as const;
+type VersionRows = Partial<Record<(typeof VERSION_TABLES)[number], string[]>>;
+
+// PostgREST returns at most this many rows per request
+const ROW_PAGE_SIZE = 1000;
+// Row IDs per delete; keeps the query string short
+const DELETE_BATCH_SIZE = 100;
+// Chunk rows per insert; each carries its embedding
+const INSERT_BATCH_SIZE = 100;
+
+// Stage each status starts in; 'processing' moves through the later stages
+const PROCESSING_STAGES: Record<ProcessingStatus, ProcessingStage> = {
+  pending: 'queued',
+  processing: 'extracting',
+  completed: 'completed',
+  failed: 'failed',
+};
+
+// Postgres rejects NUL and friends. They are blanked rather than removed so
+// positions within each page stay valid for citation highlighting.
+function sanitizeText(text: string): string {
+  return text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, ' ');
+}
+
+// PDFs load one document per page and EPUBs one per chapter; other formats
+// are a single page
+function toPages(documents: Document[]): PageText[] {
+  return documents.map((doc, index) => ({
+    pageNumber: doc.metadata?.loc?.pageNumber ?? index + 1,
+    text: doc.pageContent,
+  }));
+}
+
 export class DocumentProcessor {
-  private splitter: RecursiveCharacterTextSplitter;
-  private embeddings: OpenAIEmbeddings;
+  private splitter: DocumentSplitter;
+  private parentSplitter: RecursiveCharacterTextSplitter;
+  private embeddings: EmbeddingProvider;
+  private embeddingCache: EmbeddingCache | null;
   private supabase: any;
 
   constructor(
@@ -33,53 +113,113 @@ export class DocumentProcessor {
     openaiApiKey: string,
     options: ProcessingOptions = {}
   ) {
-    const { chunkSize = 1000, chunkOverlap = 100 } = options;
+    const { chunkSize = 1000, chunkOverlap = 100, parentChunkSize = 4000 } = options;
+
+    this.embeddings = options.embeddings || createEmbeddingProvider('openai', openaiApiKey);
+
+    this.splitter = options.semanticChunking
+      ? new SemanticChunker({
+          embeddings: this.embeddings,
+          minChunkSize: options.minChunkSize,
+          maxChunkSize: options.maxChunkSize,
+        })
+      : new RecursiveCharacterTextSplitter({
+          chunkSize,
+          chunkOverlap,
+          separators: ['\n\n', '\n', '. ', ' ', ''],
+          lengthFunction: (text: string) => text.length,
+        });
 
-    this.splitter = new RecursiveCharacterTextSplitter({
-      chunkSize,
-      chunkOverlap,
+    // Parents are what the model reads; a page usually fits in one
+    this.parentSplitter = new RecursiveCharacterTextSplitter({
+      chunkSize: parentChunkSize,
+      chunkOverlap: 0,
       separators: ['\n\n', '\n', '. ', ' ', ''],
-      lengthFunction: (text: string) => text.length,
-    });
-
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: openaiApiKey,
-      modelName: 'text-embedding-3-large',
-      dimensions: 1536,
     });
 
     this.supabase = createClient(supabaseUrl, supabaseKey);
+    this.embeddingCache = options.embeddingCache === false ? null : new EmbeddingCache(this.supabase);
   }
 
   async loadDocument(filePath: string, fileType: string): Promise<Document[]> {
-    let loader;
+    const fs = await import('fs/promises');
+    const { documents } = await this.loadBuffer(await fs.readFile(filePath), fileType);
+    return documents;
+  }
 
-    switch (fileType.toLowerCase()) {
-      case 'pdf':
-        loader = new PDFLoader(filePath, {
-          splitPages: true,
-        });
-        break;
+  /**
+   * File hash and text MinHash for duplicate detection, from the same text
+   * ingestion stores.
+   */
+  async fingerprint(buffer: Buffer, fileType: string): Promise<PaperFingerprint> {
+    return fingerprintText(buffer, joinPages(await this.extractPages(buffer, fileType)).text);
+  }
+
+  /**
+   * A file's pages as ingestion reads them; chunk page spans point into
+   * them. Used to preview documents that have no PDF rendering.
+   */
+  async extractPages(buffer: Buffer, fileType: string): Promise<PageText[]> {
+    const { documents } = await this.loadBuffer(buffer, fileType);
+    return toPages(documents);
+  }
+
+  /**
+   * Loads a file's text: one document per page for PDFs (with the layout
+   * lines the outline is built from) and per chapter for EPUBs, a single
+   * document otherwise. `fileType` is a document type or file extension.
+   */
+  private async loadBuffer(
+    buffer: Buffer,
+    fileType: string
+  ): Promise<{ documents: Document[]; layoutLines: LayoutLine[] }> {
+    switch (documentTypeOf(`file.${fileType.replace(/^\./, '')}`)) {
+      case 'pdf': {
+        const pages = await PDFService.extractLayout(buffer);
+        return {
+          documents: pages.map(page => new Document({
+            pageContent: sanitizeText(page.text),
+            metadata: { loc: { pageNumber: page.pageNumber } },
+          })),
+          layoutLines: pages.flatMap(page => page.lines),
+        };
+      }
       case 'txt':
       case 'md':
-        // For text files, we'll create a simple document
-        const fs = await import('fs/promises');
-        const content = await fs.readFile(filePath, 'utf-8');
-        return [new Document({ pageContent: content, metadata: { source: filePath } })];
-      case 'docx':
-        loader = new DocxLoader(filePath);
-        break;
-      case 'json':
-        // For JSON files, we'll parse and stringify
-        const fsJson = await import('fs/promises');
-        const jsonContent = await fsJson.readFile(filePath, 'utf-8');
-        const parsedJson = JSON.parse(jsonContent);
-        return [new Document({ pageContent: JSON.stringify(parsedJson, null, 2), metadata: { source: filePath } })];
+        return {
+          documents: [new Document({ pageContent: sanitizeText(buffer.toString('utf-8')) })],
+          layoutLines: [],
+        };
+      case 'docx': {
+        const docs = await new DocxLoader(new Blob([new Uint8Array(buffer)])).load();
+        return {
+          documents: docs.map(doc => new Document({ pageContent: sanitizeText(doc.pageContent) })),
+          layoutLines: [],
+        };
+      }
+      case 'html':
+        return {
+          documents: [new Document({ pageContent: sanitizeText(htmlToText(buffer.toString('utf-8'))) })],
+          layoutLines: [],
+        };
+      case 'epub':
+        return {
+          documents: loadEpub(buffer).map((chapter, index) => new Document({
+            pageContent: sanitizeText(chapter.text),
+            metadata: { loc: { pageNumber: index + 1 }, chapter: chapter.title },
+          })),
+          layoutLines: [],
+        };
+      case 'json': {
+        const parsedJson = JSON.parse(buffer.toString('utf-8'));
+        return {
+          documents: [new Document({ pageContent: sanitizeText(JSON.stringify(parsedJson, null, 2)) })],
+          layoutLines: [],
+        };
+      }
       default:
         throw new Error(`Unsupported file type: ${fileType}`);
     }
-
-    return await loader.load();
   }
 
   async processDocument(
@@ -87,138 +227,373 @@ export class DocumentProcessor {
     filePath: string,
     fileType: string,
     _title: string
-  ): Promise<{ success: boolean; chunksCreated: number; error?: string }> {
+  ): Promise<IngestionResult> {
     try {
-      await this.updateProcessingStatus(paperId, 'processing');
+      const fs = await import('fs/promises');
+      return await this.ingest(paperId, await fs.readFile(filePath), fileType);
+    } catch (error: any) {
+      await this.updateProcessingStatus(paperId, 'failed', 0, error.message);
+      return { success: false, chunksCreated: 0, error: error.message };
+    }
+  }
 
-      const documents = await this.loadDocument(filePath, fileType);
+  /**
+   * Chunks, embeds and stores a paper. This is the only path into
+   * paper_chunks: every upload route calls it, so a paper gets the same chunks,
+   * embeddings and metadata however it arrived. Existing chunks of the same
+   * version stay searchable until the new ones are stored, then are replaced;
+   * other versions keep theirs.
+   */
+  async ingest(
+    paperId: string,
+    buffer: Buffer,
+    fileType: string,
+    options: IngestOptions = {}
+  ): Promise<IngestionResult> {
+    const { signal } = options;
+    let versionId: string | undefined;
+    // Rows this run stored, removed again if it fails before they are complete
+    let created: VersionRows = {};
 
-      const allChunks: Document[] = [];
-      for (const doc of documents) {
-        const chunks = await this.splitter.splitDocuments([doc]);
-        allChunks.push(...chunks);
+    try {
+      const version = await resolvePaperVersion(this.supabase, paperId, options.versionId);
+      versionId = version.id;
+      await this.updateProcessingStatus(paperId, 'processing', 0, undefined, versionId);
+      // Progress rows belong to the paper's current version; a replacement's
+      // would overwrite them, so only its status on paper_versions is kept
+      const reportProgress = await this.isCurrentVersion(paperId, versionId);
+
+      const { documents, layoutLines } = await this.loadBuffer(buffer, fileType);
+      if (reportProgress) {
+        await this.updateProgress(paperId, 'chunking');
       }
 
+      const { parents, children: textChunks } = await splitIntoParentsAndChildren(
+        documents,
+        this.parentSplitter,
+        this.splitter
+      );
+
+      const pages = toPages(documents);
+      const joinedText = joinPages(pages).text;
+      const outline = this.extractOutline(layoutLines);
+
+      // Tables are embedded as row-by-row renderings next to the text chunks;
+      // their position and section come from where the table sits on the page
+      const tables = extractTables(layoutLines, pages);
+      const tableChunks = tables.flatMap((table, tableIndex) =>
+        renderTableChunks(table).map(content => ({ content, tableIndex }))
+      );
+      const tableTexts = tables.map(table => table.text);
+      const tablePositions = chunkPositions(pages, tableTexts);
+      const tableSections = sectionsForChunks(joinedText, outline, tableTexts);
+
+      const allChunks: Document[] = [
+        ...textChunks,
+        ...tableChunks.map(chunk => new Document({
+          pageContent: chunk.content,
+          metadata: { tableIndex: chunk.tableIndex },
+        })),
+      ];
+      const chunkTexts = textChunks.map(chunk => chunk.pageContent);
+      const positions = [
+        ...chunkPositions(pages, chunkTexts),
+        ...tableChunks.map(chunk => tablePositions[chunk.tableIndex]),
+      ];
+      const chunkSections = [
+        ...sectionsForChunks(joinedText, outline, chunkTexts),
+        ...tableChunks.map(chunk => tableSections[chunk.tableIndex]),
+      ];
+
       // Batch process embeddings for 5-10x performance improvement
       const batchSize = 50; // Process in batches to avoid memory issues
-      const chunkData: any[] = [];
+      const vectors: number[][] = [];
+      if (reportProgress) {
+        await this.updateProgress(paperId, 'embedding', 0, allChunks.length);
+      }
+      const embeddingStartedAt = Date.now();
+      const cacheStats = { hits: 0, misses: 0 };
 
       for (let i = 0; i < allChunks.length; i += batchSize) {
+        if (signal?.aborted) {
+          throw new Error('Processing cancelled');
+        }
+
         const batch = allChunks.slice(i, i + batchSize);
         const batchTexts = batch.map(chunk => chunk.pageContent);
 
         // Generate embeddings in batch (much faster than individual calls)
-        const batchEmbeddings = await this.embeddings.embedDocuments(batchTexts);
-
-        const batchData = batch.map((chunk, batchIndex) => {
-          const globalIndex = i + batchIndex;
-          const pageNo = chunk.metadata?.page || Math.floor(globalIndex / 5) + 1;
-
-          return {
-            paper_id: paperId,
-            page_no: pageNo,
-            content: chunk.pageContent,
-            embedding: batchEmbeddings[batchIndex],
-            metadata: {
-              chunk_index: globalIndex,
-              chunk_type: this.detectChunkType(chunk.pageContent),
-              keyword_count: this.countKeywords(chunk.pageContent),
-              has_equations: this.hasEquations(chunk.pageContent),
-              has_citations: this.hasCitations(chunk.pageContent),
-            },
-          };
-        });
-
-        chunkData.push(...batchData);
-
-        // Progress logging for large documents
-        if (allChunks.length > 100) {
-          console.log(`Processed embeddings: ${Math.min(i + batchSize, allChunks.length)}/${allChunks.length}`);
+        vectors.push(...(await this.embedChunks(batchTexts, cacheStats)));
+        if (reportProgress) {
+          await this.updateProgress(
+            paperId,
+            'embedding',
+            vectors.length,
+            allChunks.length,
+            estimateSecondsLeft(embeddingStartedAt, vectors.length, allChunks.length),
+            cacheStats
+          );
         }
       }
 
-      console.log('DEBUG: Sample chunk to insert:', chunkData[0]);
-      console.log('DEBUG: Total chunks to insert:', chunkData.length);
+      if (signal?.aborted) {
+        throw new Error('Processing cancelled');
+      }
 
-      const { data: insertedChunks, error: chunkError } = await this.supabase
-        .from('paper_chunks')
-        .insert(
-          chunkData.map(({ ...chunk }) => chunk)
-        )
-        .select();
+      if (reportProgress) {
 
-      console.log('DEBUG: Insert result - data:', insertedChunks?.length, 'error:', chunkError);
+        await this.updateProgress(paperId, 'storing', allChunks.length, allChunks.length);
 
-      if (chunkError) {
-        console.error('CHUNK INSERT ERROR:', chunkError);
-        throw new Error(`Failed to insert chunks: ${chunkError.message}`);
       }
 
-      if (insertedChunks && insertedChunks.length > 0) {
-        console.log('DEBUG: Successfully inserted chunks:', insertedChunks.length);
+      // What an earlier run stored for this version, replaced once the new
+      // rows are in so the version stays searchable if this run fails
+      const previous = await this.listVersionRows(paperId, versionId);
+
+      const parentIds = await storeParentSpans(this.supabase, paperId, parents, versionId);
+      created.paper_chunk_parents = parentIds;
+      const sectionIds = await storeOutline(this.supabase, paperId, outline, versionId);
+      created.paper_sections = sectionIds;
+      const tableIds = await storeTables(this.supabase, paperId, tables, versionId);
+      created.paper_tables = tableIds;
+
+      const chunkData = allChunks.map((chunk, index) => ({
+        paper_id: paperId,
+        version_id: versionId,
+        parent_id: parentIds[chunk.metadata.parentIndex] ?? null,
+        table_id: tableIds[chunk.metadata.tableIndex] ?? null,
+        page_no: positions[index].startPage,
+        end_page_no: positions[index].endPage,
+        char_start: positions[index].charStart,
+        char_end: positions[index].charEnd,
+        page_spans: positions[index].spans,
+        content: chunk.pageContent,
+        embedding: vectors[index],
+        embedding_model: this.embeddings.model,
+        embedding_dimensions: this.embeddings.dimensions,
+        metadata: {
+          chunk_index: index,
+          chunk_type: chunkSections[index].chunkType,
+          section_id: sectionIds[chunkSections[index].sectionIndex] ?? null,
+          section_path: chunkSections[index].path,
+          keyword_count: this.countKeywords(chunk.pageContent),
+          has_equations: this.hasEquations(chunk.pageContent),
+          has_citations: this.hasCitations(chunk.pageContent),
+        },
+      }));
+
+      // Each row carries a full embedding, so one insert for a long paper
+      // would be a multi-MB request
+      created.paper_chunks = [];
+      for (let i = 0; i < chunkData.length; i += INSERT_BATCH_SIZE) {
+        if (signal?.aborted) {
+          throw new Error('Processing cancelled');
+        }
 
-        // IMMEDIATE VERIFICATION: Check if data is actually in database
-        const { count: verifyCount, error: verifyError } = await this.supabase
+        const batch = chunkData.slice(i, i + INSERT_BATCH_SIZE);
+        const { data: insertedChunks, error: chunkError } = await this.supabase
           .from('paper_chunks')
-          .select('*', { count: 'exact', head: true })
-          .eq('paper_id', paperId);
+          .insert(batch.map(({ metadata: _metadata, ...chunk }) => chunk))
+          .select('id');
 
-        console.log('DEBUG: IMMEDIATE VERIFICATION - chunks in DB for this paper:', verifyCount, 'error:', verifyError);
-      } else {
-        console.error('DEBUG: NO CHUNKS WERE INSERTED - this is the problem!');
-      }
+        if (chunkError) {
+          throw new Error(`Failed to insert chunks: ${chunkError.message}`);
+        }
+        const ids: string[] = (insertedChunks || []).map((chunk: any) => chunk.id);
+        created.paper_chunks.push(...ids);
+
+        if (ids.length > 0) {
+          const { error: metadataError } = await this.supabase
+            .from('paper_chunks_metadata')
+            .insert(ids.map((id, index) => ({ chunk_id: id, ...batch[index].metadata })));
 
-      if (insertedChunks) {
-        const metadataInserts = insertedChunks.map((chunk: any, index: number) => ({
-          chunk_id: chunk.id,
-          chunk_index: chunkData[index].metadata.chunk_index,
-          chunk_type: chunkData[index].metadata.chunk_type,
-          keyword_count: chunkData[index].metadata.keyword_count,
-          has_equations: chunkData[index].metadata.has_equations,
-          has_citations: chunkData[index].metadata.has_citations,
-        }));
-
-        await this.supabase.from('paper_chunks_metadata').insert(metadataInserts);
+          if (metadataError) {
+            throw new Error(`Failed to insert chunk metadata: ${metadataError.message}`);
+          }
+        }
       }
 
-      // Calculate actual page count from PDF documents
+      created = {};
+      // The new rows are complete; whatever of the old ones cannot be removed
+      // now is picked up by the next run of this version
+      await this.deleteRows(previous).catch(cleanupError =>
+        console.error(`Failed to remove earlier rows of paper ${paperId}:`, cleanupError)
+      );
+
       const pageCount = this.calculatePageCount(documents);
+      const fingerprint = fingerprintText(buffer, joinedText);
+      await this.supabase
+        .from('paper_versions')
+        .update({ page_count: pageCount, file_hash: fingerprint.fileHash })
+        .eq('id', versionId);
 
-      // Update the paper's page count in the database
+      // Retrieval, and the paper's status, switch to this version only now
+      // that its chunks are stored
       await this.supabase
         .from('papers')
-        .update({ page_count: pageCount })
+        .update({
+          page_count: pageCount,
+          file_hash: fingerprint.fileHash,
+          text_minhash: fingerprint.minhash.length > 0 ? fingerprint.minhash : null,
+          current_version_id: versionId,
+          // A replaced file lives at its version's own path
+          ...(options.versionId && version.storage_path && { storage_path: version.storage_path }),
+        })
         .eq('id', paperId);
 
-      await this.updateProcessingStatus(paperId, 'completed', allChunks.length);
+      await this.updateProcessingStatus(paperId, 'completed', allChunks.length, undefined, versionId);
 
       return {
         success: true,
         chunksCreated: allChunks.length,
+        pageCount,
+        embeddingCacheHits: cacheStats.hits,
+        embeddingCacheMisses: cacheStats.misses,
       };
     } catch (error: any) {
-      await this.updateProcessingStatus(paperId, 'failed', 0, error.message);
+      await this.deleteRows(created).catch(cleanupError =>
+        console.error(`Failed to remove rows stored for paper ${paperId}:`, cleanupError)
+      );
+
+      if (signal?.aborted) {
+        await this.updateProcessingStatus(paperId, 'failed', 0, 'Processing cancelled', versionId);
+        return { success: false, chunksCreated: 0, error: 'Processing cancelled', cancelled: true };
+      }
+
+      const transient = isTransientError(error);
+      await this.updateProcessingStatus(
+        paperId,
+        transient && options.retryTransient ? 'pending' : 'failed',
+        0,
+        error.message,
+        versionId ?? options.versionId
+      );
       return {
         success: false,
         chunksCreated: 0,
         error: error.message,
+        transient,
       };
     }
   }
 
-  private detectChunkType(text: string): string {
-    const lowerText = text.toLowerCase();
+  /**
+   * Embeds chunk texts through the embedding cache when it is enabled, adding
+   * the batch's hits and misses to `stats`.
+   */
+  private async embedChunks(
+    texts: string[],
+    stats: { hits: number; misses: number }
+  ): Promise<number[][]> {
+    if (!this.embeddingCache) {
+      stats.misses += texts.length;
+      return this.embeddings.embedDocuments(texts);
+    }
+
+    const { vectors, hits, misses } = await this.embeddingCache.embed(this.embeddings, texts);
+    stats.hits += hits;
+    stats.misses += misses;
+    return vectors;
+  }
+
+  /**
+   * Whether `versionId` is what the paper shows: its current version, or the
+   * first one while the paper has none.
+   */
+  private async isCurrentVersion(paperId: string, versionId: string): Promise<boolean> {
+    const { data: paper } = await this.supabase
+      .from('papers')
+      .select('current_version_id')
+      .eq('id', paperId)
+      .single();
+
+    return !paper?.current_version_id || paper.current_version_id === versionId;
+  }
 
-    if (lowerText.includes('abstract')) return 'abstract';
-    if (lowerText.includes('introduction')) return 'introduction';
-    if (lowerText.includes('methodology') || lowerText.includes('methods')) return 'methodology';
-    if (lowerText.includes('results')) return 'results';
-    if (lowerText.includes('conclusion')) return 'conclusion';
-    if (lowerText.includes('references') || lowerText.includes('bibliography')) return 'references';
-    if (lowerText.includes('figure') || lowerText.includes('fig.')) return 'figure_caption';
-    if (lowerText.includes('table')) return 'table';
+  /**
+   * Publishes the current stage and chunk counts. Clients follow these rows
+   * through Supabase Realtime.
+   */
+  private async updateProgress(
+    paperId: string,
+    stage: ProcessingStage,
+    processedChunks?: number,
+    totalChunks?: number,
+    etaSeconds: number | null = null,
+    cacheStats?: { hits: number; misses: number }
+  ) {
+    await this.supabase
+      .from('document_processing_status')
+      .update({
+        stage,
+        eta_seconds: etaSeconds,
+        ...(processedChunks !== undefined && { processed_chunks: processedChunks }),
+        ...(totalChunks !== undefined && { total_chunks: totalChunks }),
+        ...(cacheStats && {
+          embedding_cache_hits: cacheStats.hits,
+          embedding_cache_misses: cacheStats.misses,
+        }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('paper_id', paperId);
+  }
 
-    return 'body';
+  /**
+   * Headings reconstructed from the PDF's font information. Other formats
+   * have no layout lines and get an empty outline.
+   */
+  private extractOutline(layoutLines: LayoutLine[]): OutlineHeading[] {
+    try {
+      return extractOutline(layoutLines);
+    } catch (error) {
+      console.warn('Outline extraction failed, falling back to keyword section labels:', error);
+      return [];
+    }
+  }
+
+  /**
+   * IDs of everything stored for the paper version, per table.
+   */
+  private async listVersionRows(paperId: string, versionId: string): Promise<VersionRows> {
+    const rows: VersionRows = {};
+
+    for (const table of VERSION_TABLES) {
+      const ids: string[] = [];
+      for (let from = 0; ; from += ROW_PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from(table)
+          .select('id')
+          .eq('paper_id', paperId)
+          .eq('version_id', versionId)
+          .order('id')
+          .range(from, from + ROW_PAGE_SIZE - 1);
+
+        if (error) {
+          throw new Error(`Failed to list ${table}: ${error.message}`);
+        }
+        ids.push(...(data || []).map((row: any) => row.id));
+        if (!data || data.length < ROW_PAGE_SIZE) break;
+      }
+      rows[table] = ids;
+    }
+
+    return rows;
+  }
+
+  private async deleteRows(rows: VersionRows): Promise<void> {
+    for (const table of VERSION_TABLES) {
+      const ids = rows[table] || [];
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        const { error } = await this.supabase
+          .from(table)
+          .delete()
+          .in('id', ids.slice(i, i + DELETE_BATCH_SIZE));
+
+        if (error) {
+          throw new Error(`Failed to clear ${table}: ${error.message}`);
+        }
+      }
+    }
   }
 
   private countKeywords(text: string): number {
@@ -261,7 +636,7 @@ export class DocumentProcessor {
     let maxPage = 0;
 
     for (const doc of documents) {
-      const pageNumber = doc.metadata?.page;
+      const pageNumber = doc.metadata?.loc?.pageNumber;
       if (pageNumber && typeof pageNumber === 'number') {
         maxPage = Math.max(maxPage, pageNumber);
       }
@@ -272,19 +647,35 @@ export class DocumentProcessor {
     return maxPage > 0 ? maxPage : documents.length;
   }
 
-  private async updateProcessingStatus(
+  /**
+   * Records a paper's processing state on the papers row and in
+   * document_processing_status. With `versionId`, the state is also kept on
+   * that version; if it is a replacement that has not become current yet,
+   * only there, so the paper keeps describing its current version.
+   */
+  async updateProcessingStatus(
     paperId: string,
-    status: string,
+    status: ProcessingStatus,
     totalChunks: number = 0,
-    errorMessage?: string
+    errorMessage?: string,
+    versionId: string | null = null
   ) {
     const updateData: any = {
       status,
+      stage: PROCESSING_STAGES[status],
+      eta_seconds: null,
       updated_at: new Date().toISOString(),
     };
 
-    if (status === 'processing') {
+    if (status === 'pending') {
+      // Waiting for a retry; the error says why the last attempt stopped
+      updateData.error_message = errorMessage ?? null;
+    } else if (status === 'processing') {
       updateData.processing_started_at = new Date().toISOString();
+      updateData.processed_chunks = 0;
+      updateData.embedding_cache_hits = 0;
+      updateData.embedding_cache_misses = 0;
+      updateData.error_message = null;
     } else if (status === 'completed') {
       updateData.processing_completed_at = new Date().toISOString();
       updateData.total_chunks = totalChunks;
@@ -293,6 +684,28 @@ export class DocumentProcessor {
       updateData.error_message = errorMessage;
     }
 
+    const statusColumns = {
+      processing_status: status,
+      processing_error: status === 'failed' ? errorMessage || 'Processing failed' : null,
+    };
+
+    if (versionId) {
+      await this.supabase
+        .from('paper_versions')
+        .update(statusColumns)
+        .eq('id', versionId);
+
+      if (!(await this.isCurrentVersion(paperId, versionId))) {
+        return;
+      }
+    }
+
+    // The papers row is what the upload UI and chat page poll
+    await this.supabase
+      .from('papers')
+      .update(statusColumns)
+      .eq('id', paperId);
+
     const { data: existingStatus } = await this.supabase
       .from('document_processing_status')
       .select('id')
@@ -313,26 +726,28 @@ export class DocumentProcessor {
 
   async reprocessDocument(paperId: string): Promise<{ success: boolean; message: string }> {
     try {
-      await this.supabase
-        .from('paper_chunks')
-        .delete()
-        .eq('paper_id', paperId);
-
       const { data: paper, error } = await this.supabase
         .from('papers')
-        .select('*')
+        .select('storage_path')
         .eq('id', paperId)
         .single();
 
-      if (error || !paper) {
+      if (error || !paper?.storage_path) {
         throw new Error('Paper not found');
       }
 
-      const result = await this.processDocument(
+      const { data: file, error: downloadError } = await this.supabase.storage
+        .from('papers')
+        .download(paper.storage_path);
+
+      if (downloadError || !file) {
+        throw new Error(`Failed to download paper: ${downloadError?.message || 'empty file'}`);
+      }
+
+      const result = await this.ingest(
         paperId,
-        paper.storage_path,
-        paper.source.split('.').pop(),
-        paper.title
+        Buffer.from(await file.arrayBuffer()),
+        paper.storage_path.split('.').pop() || 'pdf'
       );
 
       return {
@@ -0,0 +1,76 @@
+// Document formats papers can be uploaded in. Shared by the upload form,
+// upload routes, storage validation and ingestion; kept free of server-only
+// imports for the upload UI.
+
+export type DocumentType = 'pdf' | 'docx' | 'md' | 'txt' | 'html' | 'epub' | 'json';
+
+export interface DocumentTypeInfo {
+  label: string;
+  // First entry is used for stored file names
+  extensions: string[];
+  // First entry is the content type files are stored with
+  mimeTypes: string[];
+}
+
+export const DOCUMENT_TYPES: Record<DocumentType, DocumentTypeInfo> = {
+  pdf: { label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  docx: {
+    label: 'Word',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  md: { label: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown'] },
+  txt: { label: 'Text', extensions: ['.txt'], mimeTypes: ['text/plain'] },
+  html: { label: 'HTML', extensions: ['.html', '.htm'], mimeTypes: ['text/html', 'application/xhtml+xml'] },
+  epub: { label: 'EPUB', extensions: ['.epub'], mimeTypes: ['application/epub+zip'] },
+  json: { label: 'JSON', extensions: ['.json'], mimeTypes: ['application/json'] },
+};
+
+export const DOCUMENT_TYPE_LIST = Object.keys(DOCUMENT_TYPES) as DocumentType[];
+
+// `accept` attribute for file inputs
+export const DOCUMENT_ACCEPT = DOCUMENT_TYPE_LIST
+  .flatMap(type => [...DOCUMENT_TYPES[type].extensions, ...DOCUMENT_TYPES[type].mimeTypes])
+  .join(',');
+
+export function isDocumentType(value: unknown): value is DocumentType {
+  return typeof value === 'string' && value in DOCUMENT_TYPES;
+}
+
+/**
+ * Format of an uploaded file. The extension decides; browsers report no or a
+ * generic MIME type for Markdown and often for EPUB, so the MIME type is only
+ * a fallback.
+ */
+export function documentTypeOf(fileName: string, mimeType?: string | null): DocumentType | null {
+  const name = fileName.toLowerCase();
+  const byExtension = DOCUMENT_TYPE_LIST.find(type =>
+    DOCUMENT_TYPES[type].extensions.some(extension => name.endsWith(extension))
+  );
+  if (byExtension) {
+    return byExtension;
+  }
+
+  return DOCUMENT_TYPE_LIST.find(type => !!mimeType && DOCUMENT_TYPES[type].mimeTypes.includes(mimeType)) ?? null;
+}
+
+/**
+ * Format of a stored file, from its storage path. Papers stored before other
+ * formats were accepted are all PDFs.
+ */
+export function documentTypeOfPath(storagePath: string | null | undefined): DocumentType {
+  return (storagePath && documentTypeOf(storagePath)) || 'pdf';
+}
+
+export function contentTypeOf(type: DocumentType): string {
+  return DOCUMENT_TYPES[type].mimeTypes[0];
+}
+
+/**
+ * File name without its document extension, as the default title.
+ */
+export function stripDocumentExtension(fileName: string): string {
+  const type = documentTypeOf(fileName);
+  const extension = type && DOCUMENT_TYPES[type].extensions.find(ext => fileName.toLowerCase().endsWith(ext));
+  return extension ? fileName.slice(0, -extension.length) : fileName;
+}
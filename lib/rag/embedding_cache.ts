@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import type { EmbeddingProvider } from './embeddings';
+
+export interface CachedEmbeddings {
+  vectors: number[][];
+  // Texts served from the cache, including repeats within the same call
+  hits: number;
+  // Texts sent to the embedding provider
+  misses: number;
+}
+
+// Hashes in one lookup; keeps the PostgREST query string short
+const LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * Whitespace and Unicode normalisation, so text extracted again with
+ * different line breaks still hits the cache.
+ */
+export function normalizeChunkText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(normalizeChunkText(text)).digest('hex');
+}
+
+/**
+ * Chunk embeddings keyed by model, dimensions and normalised text hash, shared
+ * across papers. Reprocessing a paper or uploading the same text again only
+ * embeds chunks whose text changed. A cache that cannot be read or written
+ * only costs the saving; embedding still goes through.
+ */
+export class EmbeddingCache {
+  constructor(private supabase: any) {}
+
+  async embed(embeddings: EmbeddingProvider, texts: string[]): Promise<CachedEmbeddings> {
+    const hashes = texts.map(contentHash);
+    const vectors = await this.lookup(embeddings, [...new Set(hashes)]);
+
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, index) => {
+      if (!vectors.has(hash) && !missing.has(hash)) {
+        missing.set(hash, texts[index]);
+      }
+    });
+
+    if (missing.size > 0) {
+      const computed = await embeddings.embedDocuments([...missing.values()]);
+      const entries = [...missing.keys()].map((hash, index) => [hash, computed[index]] as const);
+
+      entries.forEach(([hash, vector]) => vectors.set(hash, vector));
+      await this.store(embeddings, entries);
+    }
+
+    return {
+      vectors: hashes.map(hash => vectors.get(hash)!),
+      hits: texts.length - missing.size,
+      misses: missing.size,
+    };
+  }
+
+  private async lookup(embeddings: EmbeddingProvider, hashes: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+
+    try {
+      for (let i = 0; i < hashes.length; i += LOOKUP_BATCH_SIZE) {
+        const { data, error } = await this.supabase
+          .from('embedding_cache')
+          .select('content_hash, embedding')
+          .eq('model', embeddings.model)
+          .eq('dimensions', embeddings.dimensions)
+          .in('content_hash', hashes.slice(i, i + LOOKUP_BATCH_SIZE));
+
+        if (error) {
+          throw error;
+        }
+
+        for (const row of data || []) {
+          vectors.set(
+            row.content_hash,
+            typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding
+          );
+        }
+      }
+    } catch (error) {
+      console.warn('Embedding cache lookup failed, embedding every chunk:', error);
+    }
+
+    return vectors;
+  }
+
+  private async store(
+    embeddings: EmbeddingProvider,
+    entries: ReadonlyArray<readonly [string, number[]]>
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('embedding_cache')
+      .upsert(
+        entries.map(([hash, vector]) => ({
+          model: embeddings.model,
+          dimensions: embeddings.dimensions,
+          content_hash: hash,
+          embedding: vector,
+        })),
+        { onConflict: 'model,dimensions,content_hash', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.warn('Failed to store embeddings in the cache:', error);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { Embeddings, EmbeddingsInterface } from '@langchain/core/embeddings';
+import { OpenAIEmbeddings } from '@langchain/openai';
+import { HuggingFaceTransformersEmbeddings } from '@langchain/community/embeddings/huggingface_transformers';
+import { DEFAULT_EMBEDDING_MODELS, EMBEDDING_COLUMN_DIMENSIONS, EmbeddingProviderType } from './constants';
+
+/**
+ * Embeds chunks at ingestion and questions at query time; both sides must use
+ * the same provider and model. Providers are LangChain embeddings, so they
+ * plug into the vector stores and the semantic chunker as they are.
+ */
+export interface EmbeddingProvider extends EmbeddingsInterface {
+  readonly model: string;
+  readonly dimensions: number;
+}
+
+export class OpenAIEmbeddingProvider extends Embeddings implements EmbeddingProvider {
+  private client: OpenAIEmbeddings;
+
+  constructor(readonly model: string, readonly dimensions: number, openaiApiKey: string) {
+    super({});
+    this.client = new OpenAIEmbeddings({
+      openAIApiKey: openaiApiKey,
+      modelName: model,
+      dimensions,
+    });
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.client.embedDocuments(texts);
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return this.client.embedQuery(text);
+  }
+}
+
+/**
+ * Sentence-transformer models run on the CPU with transformers.js. Weights
+ * are downloaded from the Hugging Face hub on first use and cached locally.
+ * Vectors are zero-padded to `dimensions`, which leaves cosine similarity
+ * unchanged and lets small models share the vector column sized for OpenAI.
+ */
+export class LocalEmbeddingProvider extends Embeddings implements EmbeddingProvider {
+  private pipeline: HuggingFaceTransformersEmbeddings;
+
+  constructor(readonly model: string, readonly dimensions: number) {
+    super({});
+    this.pipeline = new HuggingFaceTransformersEmbeddings({
+      model,
+      pipelineOptions: { pooling: 'mean', normalize: true },
+    });
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors = await this.pipeline.embedDocuments(texts);
+    return vectors.map(vector => this.pad(vector));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.pad(await this.pipeline.embedQuery(text));
+  }
+
+  private pad(vector: number[]): number[] {
+    if (vector.length > this.dimensions) {
+      throw new Error(
+        `${this.model} produces ${vector.length}-dimensional embeddings, more than the configured ${this.dimensions}`
+      );
+    }
+    return vector.length === this.dimensions
+      ? vector
+      : [...vector, ...new Array(this.dimensions - vector.length).fill(0)];
+  }
+}
+
+// 32-bit FNV-1a; the seed gives independent hashes for bucket and sign
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedder: words and word pairs are hashed into
+ * signed buckets and the vector is L2-normalised. Texts that share terms
+ * score higher, which is enough to run ingestion and retrieval end to end in
+ * tests and without an API key. Not a semantic model.
+ */
+export class HashingEmbeddingProvider extends Embeddings implements EmbeddingProvider {
+  readonly model = DEFAULT_EMBEDDING_MODELS.hash;
+
+  constructor(readonly dimensions: number) {
+    super({});
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+
+    for (const feature of features) {
+      const bucket = fnv1a(feature, 0x811c9dc5) % this.dimensions;
+      vector[bucket] += fnv1a(feature, 0x050c5d1f) & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+export function createEmbeddingProvider(
+  type: EmbeddingProviderType,
+  openaiApiKey: string,
+  model?: string,
+  dimensions: number = EMBEDDING_COLUMN_DIMENSIONS
+): EmbeddingProvider {
+  const modelName = model || DEFAULT_EMBEDDING_MODELS[type];
+
+  switch (type) {
+    case 'local':
+      return new LocalEmbeddingProvider(modelName, dimensions);
+    case 'hash':
+      return new HashingEmbeddingProvider(dimensions);
+    default:
+      return new OpenAIEmbeddingProvider(modelName, dimensions, openaiApiKey);
+  }
+}
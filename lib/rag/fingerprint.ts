@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+
+// Fingerprints used to spot a paper that is already in the library: the file
+// hash catches byte-identical uploads, the MinHash signature of the text
+// catches the same paper in another file (arXiv v1 and v2, a re-exported PDF).
+
+export interface PaperFingerprint {
+  fileHash: string;
+  minhash: number[];
+}
+
+export interface DuplicateMatch {
+  paperId: string;
+  title: string;
+  createdAt: string;
+  // Estimated Jaccard similarity of the texts; 1 for identical files
+  similarity: number;
+  exact: boolean;
+}
+
+export const MINHASH_SIZE = 128;
+// Word shingles; long enough that unrelated papers rarely share them
+const SHINGLE_SIZE = 5;
+// Estimated similarity from which two texts count as the same paper
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+// One seed per hash function, from a fixed LCG so signatures stay comparable
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, index) =>
+  (Math.imul(index + 1, 0x9e3779b1) + 0x7f4a7c15) | 0
+);
+
+export function fileHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+// murmur3 finaliser; turns the shingle hash into an independent hash per seed
+function mix(value: number, seed: number): number {
+  let h = value ^ seed;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) | 0;
+}
+
+/**
+ * MinHash signature over word shingles of the text. Signed 32-bit values, so
+ * they fit a Postgres INT[].
+ */
+export function minhashSignature(text: string): number[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length === 0) {
+    // Scanned PDFs without a text layer; nothing to compare
+    return [];
+  }
+
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= Math.max(words.length, SHINGLE_SIZE); i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(2 ** 31 - 1);
+  for (const shingle of shingles) {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix(shingle, SEEDS[i]);
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Share of matching signature slots, an estimate of the Jaccard similarity
+ * of the two shingle sets.
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      matches++;
+    }
+  }
+  return matches / a.length;
+}
+
+export function fingerprintText(buffer: Buffer, text: string): PaperFingerprint {
+  return { fileHash: fileHash(buffer), minhash: minhashSignature(text) };
+}
+
+/**
+ * Canonical form of a paper URL. arXiv abstract, PDF and versioned links all
+ * map to the bare identifier, so v1 and v2 of a paper compare equal.
+ */
+export function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const arxiv = parsed.hostname.endsWith('arxiv.org') &&
+      parsed.pathname.match(/^\/(?:abs|pdf)\/(.+?)(?:v\d+)?(?:\.pdf)?\/?$/);
+    if (arxiv) {
+      return `arxiv:${arxiv[1]}`;
+    }
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Papers in the user's library that look like the same paper as the
+ * fingerprint or source URL, best match first. Only papers with the same file
+ * hash or a source that could be the same URL are loaded; MinHash signatures
+ * are only compared when nothing matches exactly.
+ */
+export async function findDuplicatePapers(
+  supabase: any,
+  userId: string,
+  candidate: { fingerprint?: PaperFingerprint; sourceUrl?: string },
+  excludePaperId?: string
+): Promise<DuplicateMatch[]> {
+  const matches = new Map<string, DuplicateMatch>();
+  const add = (paper: any, similarity: number, exact: boolean) => {
+    if (paper.id !== excludePaperId && !matches.has(paper.id)) {
+      matches.set(paper.id, { paperId: paper.id, title: paper.title, createdAt: paper.created_at, similarity, exact });
+    }
+  };
+  const load = async (columns: string, narrow: (query: any) => any) => {
+    const { data, error } = await narrow(
+      supabase.from('papers').select(`id, title, created_at, ${columns}`).eq('user_id', userId)
+    );
+    if (error) {
+      throw new Error(`Failed to load papers: ${error.message}`);
+    }
+    return data || [];
+  };
+
+  const { fingerprint } = candidate;
+  if (fingerprint) {
+    for (const paper of await load('file_hash', query => query.eq('file_hash', fingerprint.fileHash))) {
+      add(paper, 1, true);
+    }
+  }
+
+  if (candidate.sourceUrl) {
+    const source = normalizeSourceUrl(candidate.sourceUrl);
+    // Every URL that normalizes to `source` contains it, minus the arXiv
+    // prefix; the comparison below drops the rest
+    const fragment = source.replace(/^arxiv:/, '');
+    for (const paper of await load('source', query => query.ilike('source', `%${fragment}%`))) {
+      if (normalizeSourceUrl(paper.source) === source) {
+        add(paper, 1, false);
+      }
+    }
+  }
+
+  if (fingerprint?.minhash.length && matches.size === 0) {
+    for (const paper of await load('text_minhash', query => query.not('text_minhash', 'is', null))) {
+      const similarity = estimateSimilarity(fingerprint.minhash, paper.text_minhash);
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD) {
+        add(paper, similarity, false);
+      }
+    }
+  }
+
+  return [...matches.values()].sort((a, b) => b.similarity - a.similarity);
+}
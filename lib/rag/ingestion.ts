@@ -0,0 +1,73 @@
+import { createClient } from '@supabase/supabase-js';
+import { ConfigManager, loadConfigFromEnv } from './config';
+import { DocumentProcessor } from './document_processor';
+import { ProcessingQueue } from './jobs';
+import { createEmbeddingProvider } from './embeddings';
+import { EmbeddingMigrator } from './reembedding';
+
+let processor: DocumentProcessor | null = null;
+let queue: ProcessingQueue | null = null;
+let migrator: EmbeddingMigrator | null = null;
+
+/**
+ * The document processor every upload route ingests papers with, built once
+ * from the environment config. Chunking and the embedding model come from the
+ * same settings the query routes use, so stored chunks always match queries.
+ */
+export function getIngestionProcessor(): DocumentProcessor {
+  if (!processor) {
+    const config = new ConfigManager(loadConfigFromEnv()).get();
+
+    processor = new DocumentProcessor(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      config.openai.apiKey,
+      {
+        chunkSize: config.chunking.chunkSize,
+        chunkOverlap: config.chunking.chunkOverlap,
+        parentChunkSize: config.chunking.parentChunkSize,
+        semanticChunking: config.chunking.semanticChunking,
+        minChunkSize: config.chunking.minChunkSize,
+        maxChunkSize: config.chunking.maxChunkSize,
+        embeddings: createEmbeddingProvider(
+          config.embeddings.provider,
+          config.openai.apiKey,
+          config.embeddings.model,
+          config.embeddings.dimensions
+        ),
+        embeddingCache: config.caching.embeddingCache,
+      }
+    );
+  }
+
+  return processor;
+}
+
+/**
+ * The processing queue upload routes enqueue papers on. One per server
+ * process, so every `drain` in the process shares a single pass.
+ */
+export function getProcessingQueue(): ProcessingQueue {
+  if (!queue) {
+    queue = new ProcessingQueue(
+      createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!),
+      getIngestionProcessor()
+    );
+  }
+
+  return queue;
+}
+
+/**
+ * Runs re-embedding migrations for the admin API, with the service role so
+ * it reaches every user's chunks.
+ */
+export function getEmbeddingMigrator(): EmbeddingMigrator {
+  if (!migrator) {
+    migrator = new EmbeddingMigrator(
+      createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+    );
+  }
+
+  return migrator;
+}
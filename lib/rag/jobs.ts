@@ -0,0 +1,383 @@
+import type { DocumentProcessor } from './document_processor';
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProcessingJob {
+  id: string;
+  paper_id: string;
+  // Paper version the job ingests; null for the paper's current version
+  version_id: string | null;
+  file_type: string;
+  status: ProcessingJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface ProcessingQueueOptions {
+  workerId?: string;
+  pollIntervalMs?: number;
+  heartbeatIntervalMs?: number;
+  // Running jobs without a heartbeat for this long are claimed again
+  lockTimeoutSeconds?: number;
+}
+
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 10 * 60_000;
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+/**
+ * Whether a failure is worth retrying: rate limits, server errors, timeouts
+ * and dropped connections. Anything else (a corrupt file, a missing paper)
+ * fails the same way every time.
+ */
+export function isTransientError(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  if (status === 408 || status === 409 || status === 429 || status >= 500) {
+    return true;
+  }
+
+  const code = error?.code ?? error?.cause?.code;
+  if (TRANSIENT_CODES.includes(code)) {
+    return true;
+  }
+
+  return /rate limit|timed? ?out|temporarily unavailable|overloaded|fetch failed|socket hang up/i
+    .test(error?.message || '');
+}
+
+/**
+ * Exponential backoff with jitter: about 30s after the first attempt,
+ * doubling up to 10 minutes.
+ */
+export function retryDelayMs(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Persistent document processing queue backed by processing_jobs. Routes
+ * enqueue papers and return; `drain` or the polling loop from `start` claims
+ * due jobs and runs them through the ingestion processor, so processing does
+ * not depend on the browser tab that uploaded the paper staying open.
+ */
+export class ProcessingQueue {
+  private workerId: string;
+  private pollIntervalMs: number;
+  private heartbeatIntervalMs: number;
+  private lockTimeoutSeconds: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private draining: Promise<number> | null = null;
+
+  constructor(
+    private supabase: any,
+    private processor: DocumentProcessor,
+    options: ProcessingQueueOptions = {}
+  ) {
+    this.workerId = options.workerId || `worker-${process.pid}-${crypto.randomUUID().slice(0, 8)}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5_000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15_000;
+    this.lockTimeoutSeconds = options.lockTimeoutSeconds ?? 600;
+  }
+
+  /**
+   * Queues a paper for processing, into `versionId` when given and its
+   * current version otherwise. A paper with a job already queued or running
+   * keeps that job.
+   */
+  async enqueue(
+    paperId: string,
+    fileType: string = 'pdf',
+    versionId: string | null = null
+  ): Promise<ProcessingJob> {
+    const active = await this.activeJob(paperId);
+    if (active) {
+      return active;
+    }
+
+    const { data: job, error } = await this.supabase
+      .from('processing_jobs')
+      .insert({ paper_id: paperId, file_type: fileType, version_id: versionId })
+      .select()
+      .single();
+
+    if (error) {
+      // Another request queued the paper first
+      const raced = error.code === '23505' ? await this.activeJob(paperId) : null;
+      if (raced) {
+        return raced;
+      }
+      throw new Error(`Failed to queue paper for processing: ${error.message}`);
+    }
+
+    await this.processor.updateProcessingStatus(paperId, 'pending', 0, undefined, versionId);
+    return job;
+  }
+
+  /**
+   * Cancels a paper's queued or running job. A running job stops at its next
+   * heartbeat and removes the chunks it stored.
+   */
+  async cancel(paperId: string): Promise<ProcessingJob | null> {
+    const { data: jobs, error } = await this.supabase
+      .from('processing_jobs')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('paper_id', paperId)
+      .in('status', ['queued', 'running'])
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to cancel processing: ${error.message}`);
+    }
+
+    const job: ProcessingJob | undefined = jobs?.[0];
+    if (!job) {
+      return null;
+    }
+
+    // Marked here as well as by the worker, in case the worker holding the
+    // job has died
+    await this.processor.updateProcessingStatus(paperId, 'failed', 0, 'Processing cancelled', job.version_id);
+    return job;
+  }
+
+  /**
+   * The paper's most recent job, whatever its state.
+   */
+  async latestJob(paperId: string): Promise<ProcessingJob | null> {
+    const { data } = await this.supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('paper_id', paperId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data ?? null;
+  }
+
+  /**
+   * Runs due jobs until none is left and returns how many ran. Concurrent
+   * calls share the same pass.
+   */
+  drain(): Promise<number> {
+    if (!this.draining) {
+      this.draining = (async () => {
+        let processed = 0;
+        while (await this.runNext()) {
+          processed++;
+        }
+        return processed;
+      })().finally(() => {
+        this.draining = null;
+      });
+    }
+
+    return this.draining;
+  }
+
+  /**
+   * Polls for due jobs until `stop` is called. Needed for retries and for
+   * reclaiming jobs of a worker that died, which nothing else wakes up for.
+   */
+  start(): void {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    const poll = async () => {
+      await this.drain().catch(error => console.error('Processing queue error:', error));
+      if (this.polling) {
+        this.timer = setTimeout(poll, this.pollIntervalMs);
+      }
+    };
+    void poll();
+  }
+
+  stop(): void {
+    this.polling = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claims and runs the next due job, if any.
+   */
+  async runNext(): Promise<ProcessingJob | null> {
+    const { data, error } = await this.supabase.rpc('claim_processing_job', {
+      worker_id: this.workerId,
+      lock_timeout_seconds: this.lockTimeoutSeconds,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim processing job: ${error.message}`);
+    }
+
+    const job: ProcessingJob | undefined = data?.[0];
+    if (!job) {
+      return null;
+    }
+
+    await this.runJob(job);
+    return job;
+  }
+
+  private async runJob(job: ProcessingJob): Promise<void> {
+    // Jobs reclaimed from dead workers count an attempt each time
+    if (job.attempts > job.max_attempts) {
+      const message = job.last_error || 'Processing was interrupted too many times';
+      await this.finishJob(job, 'failed', message);
+      await this.processor.updateProcessingStatus(job.paper_id, 'failed', 0, message, job.version_id);
+      return;
+    }
+
+    const canRetry = job.attempts < job.max_attempts;
+    const controller = new AbortController();
+
+    // The heartbeat keeps the lock fresh and notices cancellation
+    const heartbeat = setInterval(() => {
+      this.heartbeat(job)
+        .then(alive => {
+          if (!alive) controller.abort();
+        })
+        .catch(error => console.warn('Processing heartbeat failed:', error));
+    }, this.heartbeatIntervalMs);
+
+    try {
+      let buffer: Buffer;
+      try {
+        buffer = await this.downloadPaper(job);
+      } catch (error: any) {
+        const transient = isTransientError(error);
+        await this.processor.updateProcessingStatus(
+          job.paper_id,
+          transient && canRetry ? 'pending' : 'failed',
+          0,
+          error.message,
+          job.version_id
+        );
+        await this.settleFailure(job, error.message, transient && canRetry);
+        return;
+      }
+
+      const result = await this.processor.ingest(job.paper_id, buffer, job.file_type, {
+        signal: controller.signal,
+        retryTransient: canRetry,
+        versionId: job.version_id,
+      });
+
+      if (result.success) {
+        await this.finishJob(job, 'completed');
+      } else if (!result.cancelled) {
+        await this.settleFailure(job, result.error || 'Processing failed', !!result.transient && canRetry);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async settleFailure(job: ProcessingJob, message: string, retry: boolean): Promise<void> {
+    if (!retry) {
+      await this.finishJob(job, 'failed', message);
+      return;
+    }
+
+    const delay = retryDelayMs(job.attempts);
+    console.warn(`Processing paper ${job.paper_id} failed (attempt ${job.attempts}), retrying in ${Math.round(delay / 1000)}s:`, message);
+
+    await this.updateOwnJob(job, {
+      status: 'queued',
+      run_at: new Date(Date.now() + delay).toISOString(),
+      locked_by: null,
+      locked_at: null,
+      last_error: message,
+    });
+  }
+
+  private async finishJob(
+    job: ProcessingJob,
+    status: 'completed' | 'failed',
+    message?: string
+  ): Promise<void> {
+    await this.updateOwnJob(job, {
+      status,
+      locked_by: null,
+      locked_at: null,
+      last_error: message ?? null,
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Updates a job this worker holds. A job that was cancelled or reclaimed in
+   * the meantime is left alone.
+   */
+  private async updateOwnJob(job: ProcessingJob, update: Partial<ProcessingJob>): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('processing_jobs')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('locked_by', this.workerId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update processing job: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  private heartbeat(job: ProcessingJob): Promise<boolean> {
+    return this.updateOwnJob(job, { locked_at: new Date().toISOString() });
+  }
+
+  private async downloadPaper(job: ProcessingJob): Promise<Buffer> {
+    const { data: source, error } = job.version_id
+      ? await this.supabase
+          .from('paper_versions')
+          .select('storage_path')
+          .eq('id', job.version_id)
+          .single()
+      : await this.supabase
+          .from('papers')
+          .select('storage_path')
+          .eq('id', job.paper_id)
+          .single();
+
+    if (error || !source?.storage_path) {
+      throw new Error('Paper file not found in storage');
+    }
+
+    const { data: file, error: downloadError } = await this.supabase.storage
+      .from('papers')
+      .download(source.storage_path);
+
+    if (downloadError || !file) {
+      throw downloadError || new Error('Paper file is empty');
+    }
+
+    return Buffer.from(await file.arrayBuffer());
+  }
+
+  private async activeJob(paperId: string): Promise<ProcessingJob | null> {
+    const { data } = await this.supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('paper_id', paperId)
+      .in('status', ['queued', 'running'])
+      .maybeSingle();
+
+    return data ?? null;
+  }
+}
@@ -0,0 +1,347 @@
+import { ChunkType, detectChunkType } from './sections';
+
+export interface LayoutLine {
+  text: string;
+  pageNumber: number;
+  offset: number; // character offset of the line within its page text
+  fontSize: number;
+  fontName: string;
+  // Text runs of the line with their horizontal position in PDF units; table
+  // detection reads columns from the gaps between them
+  runs?: LayoutRun[];
+}
+
+export interface LayoutRun {
+  text: string;
+  x: number;
+  width: number;
+}
+
+export interface OutlineHeading {
+  title: string;
+  number?: string;
+  level: number;
+  pageNumber: number;
+  text: string; // the heading line exactly as extracted, used to locate it
+}
+
+export interface SectionNode {
+  id: string;
+  title: string;
+  number: string | null;
+  level: number;
+  pageNumber: number | null;
+  children: SectionNode[];
+}
+
+// Unnumbered headings most papers share. "Abstract" is often run into the
+// first sentence ("Abstract—We propose ..."), so it only needs to lead the line.
+const KNOWN_HEADING = /^(abstract|introduction|related work|background|preliminaries|methods?|methodology|approach|experiments?|experimental setup|evaluation|results|discussion|conclusions?|limitations|future work|acknowledge?ments?|references|bibliography)\s*$/i;
+const ABSTRACT_LEAD = /^abstract\b\s*[:.—–-]?/i;
+const APPENDIX_HEADING = /^appendix(?:\s+([A-Z]))?\b[:.]?\s*(.*)$/i;
+
+// "3 Method", "3.2. Training", "IV. RESULTS", "A.1 Proofs"
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2})*|[IVX]{1,4}|[A-H](?:\.\d{1,2})*)\.?\s+(\S.*)$/;
+
+const MAX_HEADING_LENGTH = 120;
+const MAX_HEADING_WORDS = 14;
+
+function mostCommon<T>(values: Array<{ value: T; weight: number }>): T | undefined {
+  const totals = new Map<T, number>();
+  for (const { value, weight } of values) {
+    totals.set(value, (totals.get(value) || 0) + weight);
+  }
+
+  let best: T | undefined;
+  let bestWeight = -1;
+  for (const [value, weight] of totals) {
+    if (weight > bestWeight) {
+      best = value;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+function titleCase(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+}
+
+/**
+ * Reconstructs a paper's outline from its text lines. The body style is the
+ * font size and face covering the most characters; a line is a heading when
+ * it is set apart from the body (larger or a different face) and looks like a
+ * numbered heading, or when it is one of the usual unnumbered section names.
+ */
+export function extractOutline(lines: LayoutLine[]): OutlineHeading[] {
+  const bodySize = mostCommon(lines.map(line => ({ value: line.fontSize, weight: line.text.length }))) || 0;
+  const bodyFont = mostCommon(lines.map(line => ({ value: line.fontName, weight: line.text.length })));
+
+  const headings: OutlineHeading[] = [];
+  const seen = new Set<string>();
+  let inAppendix = false;
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text || !/[a-z]/i.test(text)) continue;
+
+    const emphasized = line.fontSize >= bodySize * 1.08 || line.fontName !== bodyFont;
+    let heading: Omit<OutlineHeading, 'pageNumber' | 'text'> | null = null;
+
+    if (ABSTRACT_LEAD.test(text) && !seen.has('abstract')) {
+      heading = { title: 'Abstract', level: 1 };
+    } else if (text.length <= MAX_HEADING_LENGTH) {
+      const appendix = text.match(APPENDIX_HEADING);
+      const numbered = text.match(NUMBERED_HEADING);
+
+      if (appendix && (emphasized || text.length < 40)) {
+        inAppendix = true;
+        heading = {
+          title: appendix[2] ? `Appendix ${appendix[1] || ''} ${appendix[2]}`.replace(/\s+/g, ' ') : 'Appendix',
+          number: appendix[1],
+          level: 1,
+        };
+      } else if (KNOWN_HEADING.test(text) && (emphasized || text.length < 40)) {
+        heading = { title: titleCase(text), level: 1 };
+      } else if (numbered && emphasized) {
+        const [, number, title] = numbered;
+        const isLetter = /^[A-H]/.test(number);
+        const looksLikeTitle = /^[A-Z]/.test(title) &&
+          !/[.,;:]$/.test(title) &&
+          title.split(/\s+/).length <= MAX_HEADING_WORDS;
+
+        // Lettered headings ("A Proofs") only make sense inside the appendix;
+        // elsewhere they are initials or list items
+        if (looksLikeTitle && (!isLetter || inAppendix)) {
+          heading = {
+            title: title.trim(),
+            number,
+            level: /^[IVX]+$/.test(number) ? 1 : number.split('.').length,
+          };
+        }
+      }
+    }
+
+    if (!heading) continue;
+
+    // Running headers repeat the same line on every page
+    const key = `${heading.number || ''} ${heading.title}`.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (heading.title === 'Abstract') seen.add('abstract');
+
+    headings.push({ ...heading, pageNumber: line.pageNumber, text: line.text });
+  }
+
+  return headings;
+}
+
+/**
+ * Index of each heading's parent in `headings`, or -1 for top-level headings.
+ */
+export function headingParents(headings: OutlineHeading[]): number[] {
+  const parents: number[] = [];
+  const stack: number[] = [];
+
+  headings.forEach((heading, index) => {
+    while (stack.length > 0 && headings[stack[stack.length - 1]].level >= heading.level) {
+      stack.pop();
+    }
+    parents.push(stack.length > 0 ? stack[stack.length - 1] : -1);
+    stack.push(index);
+  });
+
+  return parents;
+}
+
+/**
+ * Full path of every heading, e.g. ["4 Experiments", "4.2 Results"].
+ */
+export function headingPaths(headings: OutlineHeading[]): string[][] {
+  const parents = headingParents(headings);
+  const paths: string[][] = [];
+
+  headings.forEach((heading, index) => {
+    const label = heading.number && !heading.title.startsWith('Appendix')
+      ? `${heading.number} ${heading.title}`
+      : heading.title;
+    paths.push(parents[index] >= 0 ? [...paths[parents[index]], label] : [label]);
+  });
+
+  return paths;
+}
+
+/**
+ * Finds each needle in `text`, in order, never searching before the previous
+ * match; overlapping chunks may start inside the previous one. Returns -1 for
+ * needles that cannot be found.
+ */
+export function locateSequentially(text: string, needles: string[]): number[] {
+  let cursor = 0;
+
+  return needles.map(needle => {
+    const offset = text.indexOf(needle, cursor);
+    if (offset >= 0) {
+      cursor = offset + 1;
+    }
+    return offset;
+  });
+}
+
+/**
+ * Section of each chunk as an index into `headings`, or -1 before the first
+ * heading. Chunks that cannot be located inherit the previous chunk's section.
+ */
+export function assignSections(
+  text: string,
+  headings: OutlineHeading[],
+  chunkTexts: string[]
+): number[] {
+  const headingOffsets = locateSequentially(text, headings.map(heading => heading.text));
+  const chunkOffsets = locateSequentially(text, chunkTexts);
+
+  let previous = -1;
+  return chunkOffsets.map(offset => {
+    if (offset < 0) return previous;
+
+    let section = -1;
+    headingOffsets.forEach((headingOffset, index) => {
+      if (headingOffset >= 0 && headingOffset <= offset) {
+        section = index;
+      }
+    });
+    previous = section;
+    return section;
+  });
+}
+
+const SECTION_TYPES: Array<[RegExp, ChunkType]> = [
+  [/abstract/i, 'abstract'],
+  [/introduction/i, 'introduction'],
+  [/references|bibliography/i, 'references'],
+  [/conclusion|discussion|limitation|future work|summary/i, 'conclusion'],
+  [/result|experiment|evaluation|ablation|analysis|benchmark/i, 'results'],
+  [/method|approach|model|architecture|framework|preliminar|formulation|algorithm/i, 'methodology'],
+];
+
+/**
+ * Maps a section path to a chunk type, checking the deepest heading first so
+ * a "Limitations" subsection of the method section counts as conclusion.
+ */
+export function chunkTypeForSection(path: string[]): ChunkType {
+  for (const title of [...path].reverse()) {
+    const match = SECTION_TYPES.find(([pattern]) => pattern.test(title));
+    if (match) return match[1];
+  }
+  return 'body';
+}
+
+export interface ChunkSection {
+  sectionIndex: number;
+  path: string[] | null;
+  chunkType: ChunkType;
+}
+
+/**
+ * Section index, path and chunk type for every chunk of `text`. Without an
+ * outline (non-PDF input, or no headings found) the chunk type falls back to
+ * the keyword guess from `detectChunkType`.
+ */
+export function sectionsForChunks(
+  text: string,
+  headings: OutlineHeading[],
+  chunkTexts: string[]
+): ChunkSection[] {
+  if (headings.length === 0) {
+    return chunkTexts.map(chunkText => ({
+      sectionIndex: -1,
+      path: null,
+      chunkType: detectChunkType(chunkText),
+    }));
+  }
+
+  const paths = headingPaths(headings);
+
+  return assignSections(text, headings, chunkTexts).map(sectionIndex => ({
+    sectionIndex,
+    path: sectionIndex >= 0 ? paths[sectionIndex] : null,
+    chunkType: sectionIndex >= 0 ? chunkTypeForSection(paths[sectionIndex]) : 'body',
+  }));
+}
+
+/**
+ * Inserts the outline for a paper version as paper_sections rows and returns
+ * their IDs in heading order.
+ */
+export async function storeOutline(
+  supabase: any,
+  paperId: string,
+  headings: OutlineHeading[],
+  versionId: string | null = null
+): Promise<string[]> {
+  if (headings.length === 0) {
+    return [];
+  }
+
+  // IDs are generated here so parent links can be set in a single insert
+  const ids = headings.map(() => crypto.randomUUID());
+  const parents = headingParents(headings);
+
+  const { error } = await supabase
+    .from('paper_sections')
+    .insert(headings.map((heading, index) => ({
+      id: ids[index],
+      paper_id: paperId,
+      version_id: versionId,
+      parent_section_id: parents[index] >= 0 ? ids[parents[index]] : null,
+      position: index,
+      level: heading.level,
+      number: heading.number ?? null,
+      title: heading.title,
+      page_no: heading.pageNumber,
+    })));
+
+  if (error) {
+    throw new Error(`Failed to store outline: ${error.message}`);
+  }
+
+  return ids;
+}
+
+/**
+ * Rebuilds the section tree from paper_sections rows ordered by position.
+ */
+export function buildSectionTree(rows: Array<{
+  id: string;
+  parent_section_id: string | null;
+  level: number;
+  number: string | null;
+  title: string;
+  page_no: number | null;
+}>): SectionNode[] {
+  const nodes = new Map<string, SectionNode>();
+  const roots: SectionNode[] = [];
+
+  for (const row of rows) {
+    nodes.set(row.id, {
+      id: row.id,
+      title: row.title,
+      number: row.number,
+      level: row.level,
+      pageNumber: row.page_no,
+      children: [],
+    });
+  }
+
+  for (const row of rows) {
+    const node = nodes.get(row.id)!;
+    const parent = row.parent_section_id ? nodes.get(row.parent_section_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
@@ -0,0 +1,149 @@
+// Page bookkeeping for text extracted page by page. Kept free of server-only
+// imports so the chat UI can format page ranges the same way.
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface PageRange {
+  startPage: number;
+  endPage: number;
+}
+
+// Pages are joined with a blank line, the same way pdf-parse joins them
+export const PAGE_SEPARATOR = '\n\n';
+
+/**
+ * Joins page texts into one document and records where each page starts.
+ */
+export function joinPages(pages: PageText[]): { text: string; pageStarts: number[] } {
+  const pageStarts: number[] = [];
+  let text = '';
+
+  pages.forEach((page, index) => {
+    if (index > 0) text += PAGE_SEPARATOR;
+    pageStarts.push(text.length);
+    text += page.text;
+  });
+
+  return { text, pageStarts };
+}
+
+function pageIndexAt(pageStarts: number[], offset: number): number {
+  let low = 0;
+  let high = pageStarts.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (pageStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Start and end offsets of each chunk in `text`, searched in order so repeated
+ * passages resolve to the right occurrence. Chunks that were rejoined by the
+ * splitter (and so are not verbatim substrings) are located by their first
+ * and last line. Returns null for chunks that cannot be found.
+ */
+export function locateChunks(
+  text: string,
+  chunkTexts: string[]
+): Array<{ start: number; end: number } | null> {
+  let cursor = 0;
+
+  return chunkTexts.map(chunkText => {
+    let start = text.indexOf(chunkText, cursor);
+    let end = start + chunkText.length;
+
+    if (start < 0) {
+      const lines = chunkText.split(/\s*\n\s*|(?<=[.!?])\s+/).filter(Boolean);
+      const head = lines[0]?.slice(0, 200);
+      const tail = lines[lines.length - 1]?.slice(-200);
+      start = head ? text.indexOf(head, cursor) : -1;
+      if (start < 0) return null;
+
+      const tailOffset = text.indexOf(tail, start);
+      end = tailOffset >= 0 ? tailOffset + tail.length : start + chunkText.length;
+    }
+
+    cursor = start + 1;
+    return { start, end: Math.min(end, text.length) };
+  });
+}
+
+// Page positions count non-whitespace characters only, so they still line up
+// when a PDF reader breaks the same page into lines differently
+export type PageSpan = {
+  page: number;
+  start: number;
+  end: number;
+};
+
+export interface ChunkPosition extends PageRange {
+  charStart: number | null;
+  charEnd: number | null;
+  spans: PageSpan[];
+}
+
+/**
+ * Number of non-whitespace characters before each offset of `text`.
+ */
+export function compactOffsets(text: string): Int32Array {
+  const offsets = new Int32Array(text.length + 1);
+  for (let i = 0; i < text.length; i++) {
+    offsets[i + 1] = offsets[i] + (/\s/.test(text[i]) ? 0 : 1);
+  }
+  return offsets;
+}
+
+/**
+ * Where every chunk of a joined document sits: character offsets into the
+ * joined text, first and last page, and the covered part of each page.
+ * Chunks that cannot be located take the page range of the chunk before
+ * them, with no offsets.
+ */
+export function chunkPositions(pages: PageText[], chunkTexts: string[]): ChunkPosition[] {
+  const { text, pageStarts } = joinPages(pages);
+  const pageOffsets = pages.map(page => compactOffsets(page.text));
+  const firstPage = pages[0]?.pageNumber ?? 1;
+  let previous: PageRange = { startPage: firstPage, endPage: firstPage };
+
+  return locateChunks(text, chunkTexts).map(span => {
+    if (!span || pages.length === 0) {
+      return { ...previous, charStart: null, charEnd: null, spans: [] };
+    }
+
+    const first = pageIndexAt(pageStarts, span.start);
+    const last = pageIndexAt(pageStarts, Math.max(span.start, span.end - 1));
+    const spans: PageSpan[] = [];
+
+    for (let index = first; index <= last; index++) {
+      const pageStart = pageStarts[index];
+      const from = Math.max(span.start, pageStart) - pageStart;
+      const to = Math.min(span.end, pageStart + pages[index].text.length) - pageStart;
+      if (to > from) {
+        spans.push({
+          page: pages[index].pageNumber,
+          start: pageOffsets[index][from],
+          end: pageOffsets[index][to],
+        });
+      }
+    }
+
+    previous = { startPage: pages[first].pageNumber, endPage: pages[last].pageNumber };
+    return { ...previous, charStart: span.start, charEnd: span.end, spans };
+  });
+}
+
+/**
+ * "p. 3" or "pp. 3–4".
+ */
+export function formatPageRange(startPage: number, endPage?: number | null): string {
+  return endPage && endPage !== startPage ? `pp. ${startPage}–${endPage}` : `p. ${startPage}`;
+}
@@ -0,0 +1,82 @@
+import { Document } from '@langchain/core/documents';
+
+export interface DocumentSplitter {
+  splitDocuments(documents: Document[]): Promise<Document[]>;
+}
+
+export interface ParentSpan {
+  index: number;
+  pageNumber?: number;
+  content: string;
+}
+
+/**
+ * Splits loaded documents (one per page for PDFs) into parent spans no larger
+ * than the parent splitter allows, then each parent into the small child
+ * chunks that get embedded. Children carry `metadata.parentIndex`.
+ */
+export async function splitIntoParentsAndChildren(
+  documents: Document[],
+  parentSplitter: DocumentSplitter,
+  childSplitter: DocumentSplitter
+): Promise<{ parents: ParentSpan[]; children: Document[] }> {
+  const parents: ParentSpan[] = [];
+  const children: Document[] = [];
+
+  for (const doc of documents) {
+    const parentDocs = await parentSplitter.splitDocuments([doc]);
+
+    for (const parentDoc of parentDocs) {
+      const index = parents.length;
+      parents.push({
+        index,
+        pageNumber: doc.metadata?.loc?.pageNumber,
+        content: parentDoc.pageContent,
+      });
+
+      const childDocs = await childSplitter.splitDocuments([parentDoc]);
+      children.push(...childDocs.map(child => new Document({
+        pageContent: child.pageContent,
+        metadata: { ...child.metadata, parentIndex: index },
+      })));
+    }
+  }
+
+  return { parents, children };
+}
+
+/**
+ * Inserts parent spans for a paper version and returns their row IDs, indexed
+ * by `ParentSpan.index`.
+ */
+export async function storeParentSpans(
+  supabase: any,
+  paperId: string,
+  parents: ParentSpan[],
+  versionId: string | null = null
+): Promise<string[]> {
+  if (parents.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('paper_chunk_parents')
+    .insert(parents.map(parent => ({
+      paper_id: paperId,
+      version_id: versionId,
+      parent_index: parent.index,
+      page_no: parent.pageNumber ?? null,
+      content: parent.content,
+    })))
+    .select('id, parent_index');
+
+  if (error) {
+    throw new Error(`Failed to insert parent spans: ${error.message}`);
+  }
+
+  const ids: string[] = [];
+  for (const row of data || []) {
+    ids[row.parent_index] = row.id;
+  }
+  return ids;
+}
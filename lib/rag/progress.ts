@@ -0,0 +1,114 @@
+// Processing progress as the ingestion pipeline records it in
+// document_processing_status. Kept free of server-only imports so the upload
+// section, papers list and chat page describe it the same way.
+
+export type ProcessingStage =
+  | 'queued'
+  | 'extracting'
+  | 'chunking'
+  | 'embedding'
+  | 'storing'
+  | 'completed'
+  | 'failed';
+
+export interface ProcessingProgress {
+  paperId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  stage: ProcessingStage | null;
+  processedChunks: number;
+  totalChunks: number;
+  etaSeconds: number | null;
+  error: string | null;
+}
+
+export interface ProcessingStatusRow {
+  paper_id: string;
+  status: string;
+  stage?: string | null;
+  processed_chunks?: number | null;
+  total_chunks?: number | null;
+  eta_seconds?: number | null;
+  error_message?: string | null;
+}
+
+export function progressFromRow(row: ProcessingStatusRow): ProcessingProgress {
+  return {
+    paperId: row.paper_id,
+    status: row.status as ProcessingProgress['status'],
+    stage: (row.stage as ProcessingStage | null) ?? null,
+    processedChunks: row.processed_chunks ?? 0,
+    totalChunks: row.total_chunks ?? 0,
+    etaSeconds: row.eta_seconds ?? null,
+    error: row.error_message ?? null,
+  };
+}
+
+/**
+ * Seconds left at the rate chunks have been embedded so far, or null before
+ * the first batch.
+ */
+export function estimateSecondsLeft(
+  startedAt: number,
+  processedChunks: number,
+  totalChunks: number,
+  now: number = Date.now()
+): number | null {
+  if (processedChunks <= 0) {
+    return null;
+  }
+  const perChunk = (now - startedAt) / 1000 / processedChunks;
+  return Math.max(0, Math.round(perChunk * (totalChunks - processedChunks)));
+}
+
+function formatEta(seconds: number): string {
+  return seconds < 60 ? `${Math.max(seconds, 1)}s` : `${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * One-line description, e.g. "Embedding 140/320 chunks · about 20s left".
+ */
+export function describeProgress(progress: ProcessingProgress): string {
+  switch (progress.stage) {
+    case 'queued':
+      return progress.error ? 'Retrying shortly' : 'Waiting to start';
+    case 'extracting':
+      return 'Extracting text';
+    case 'chunking':
+      return 'Splitting into chunks';
+    case 'embedding': {
+      const counts = `Embedding ${progress.processedChunks}/${progress.totalChunks} chunks`;
+      return progress.etaSeconds !== null ? `${counts} · about ${formatEta(progress.etaSeconds)} left` : counts;
+    }
+    case 'storing':
+      return 'Saving chunks';
+    case 'completed':
+      return 'Ready';
+    case 'failed':
+      return progress.error || 'Processing failed';
+    default:
+      return progress.status === 'pending' ? 'Waiting to start' : 'Processing';
+  }
+}
+
+/**
+ * Overall completion between 0 and 1. Embedding dominates the run time, so it
+ * covers most of the range.
+ */
+export function progressFraction(progress: ProcessingProgress): number {
+  switch (progress.stage) {
+    case 'extracting':
+      return 0.03;
+    case 'chunking':
+      return 0.08;
+    case 'embedding':
+      return progress.totalChunks > 0
+        ? 0.1 + 0.85 * (progress.processedChunks / progress.totalChunks)
+        : 0.1;
+    case 'storing':
+      return 0.97;
+    case 'completed':
+      return 1;
+    default:
+      return 0;
+  }
+}
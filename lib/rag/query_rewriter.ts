@@ -0,0 +1,103 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseMessage } from '@langchain/core/messages';
+import { MAX_QUERY_VARIANTS } from './constants';
+
+export interface QueryRewriterConfig {
+  openaiApiKey: string;
+  modelName?: string;
+  // Rewrites with this model instead of OpenAI `modelName`
+  llm?: BaseChatModel;
+  historyWindow?: number;
+}
+
+
+/**
+ * Turns conversational follow-ups into retrieval-friendly queries. Both steps
+ * degrade to the original question when the model cannot be reached, so a
+ * rewriting failure never blocks answering.
+ */
+export class QueryRewriter {
+  private llm: BaseChatModel;
+  private historyWindow: number;
+
+  constructor(config: QueryRewriterConfig) {
+    this.llm = config.llm || new ChatOpenAI({
+      openAIApiKey: config.openaiApiKey,
+      modelName: config.modelName || 'gpt-4o-mini',
+      temperature: 0,
+      maxTokens: 300,
+    });
+    this.historyWindow = config.historyWindow || 6;
+  }
+
+  /**
+   * Rewrites `question` as a standalone question using the most recent turns
+   * of `history`. Returns the question unchanged when there is no history.
+   */
+  async condense(question: string, history: BaseMessage[]): Promise<string> {
+    const recent = history.slice(-this.historyWindow);
+    if (recent.length === 0) {
+      return question;
+    }
+
+    const transcript = recent
+      .map(message => `${message.getType() === 'human' ? 'User' : 'Assistant'}: ${String(message.content)}`)
+      .join('\n');
+
+    try {
+      const response = await this.llm.invoke([
+        [
+          'system',
+          'Rewrite the follow-up question so it can be understood without the conversation. ' +
+          'Resolve pronouns and references such as "it" or "the second experiment" using the conversation. ' +
+          'If the question is already standalone, return it unchanged. Reply with the question only.',
+        ],
+        ['human', `Conversation:\n${transcript}\n\nFollow-up question: ${question}`],
+      ]);
+
+      const rewritten = String(response.content).trim().replace(/^["']|["']$/g, '');
+      return rewritten || question;
+    } catch (error) {
+      console.warn('Query condensation failed, using the original question:', error);
+      return question;
+    }
+  }
+
+  /**
+   * Generates up to `count` paraphrases of `question` that approach it from
+   * different angles. The original question is not included in the result.
+   */
+  async expand(question: string, count: number): Promise<string[]> {
+    const target = Math.min(Math.max(Math.floor(count), 0), MAX_QUERY_VARIANTS);
+    if (target === 0) {
+      return [];
+    }
+
+    try {
+      const response = await this.llm.invoke([
+        [
+          'system',
+          `Write ${target} alternative search queries for finding passages in academic papers that answer the question. ` +
+          'Vary the wording and terminology; do not add new constraints. Reply with one query per line and nothing else.',
+        ],
+        ['human', question],
+      ]);
+
+      const seen = new Set([question.toLowerCase()]);
+      return String(response.content)
+        .split('\n')
+        .map(line => line.replace(/^\s*(\d+[.)]|[-*])\s*/, '').trim())
+        .filter(line => {
+          const key = line.toLowerCase();
+          if (!line || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, target);
+    } catch (error) {
+      console.warn('Multi-query expansion failed, using the original question only:', error);
+      return [];
+    }
+  }
+}
@@ -1,6 +1,12 @@
 import { DocumentProcessor } from './document_processor';
 import { VectorStoreManager, VectorStoreConfig, RetrievalOptions } from './vector_store';
-import { RAGChain, RAGResponse, ConversationContext } from './rag_chain';
+import { RAGChain, RAGResponse, ConversationContext, PaperComparison } from './rag_chain';
+import { createReranker } from './reranker';
+import { createEmbeddingProvider } from './embeddings';
+import type { EmbeddingProviderType } from './constants';
+import { ChatModelRegistry, ChatModelSelection } from './chat_models';
+import { QueryRewriter } from './query_rewriter';
+import { citationsFromSources } from './citations';
 import { createClient } from '@supabase/supabase-js';
 import { BaseMessage } from '@langchain/core/messages';
 
@@ -11,8 +17,22 @@ export interface RAGAgentConfig {
   chromaUrl?: string;
   vectorStoreType?: 'chroma' | 'supabase';
   modelName?: string;
+  chatModels?: ChatModelRegistry;
+  embeddingProvider?: EmbeddingProviderType;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
   chunkSize?: number;
   chunkOverlap?: number;
+  parentChunkSize?: number;
+  semanticChunking?: boolean;
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  rerankingEnabled?: boolean;
+  rerankerType?: 'llm' | 'lexical';
+  rerankCandidates?: number;
+  queryRewritingEnabled?: boolean;
+  referencesWeight?: number;
+  parentDocumentRetrieval?: boolean;
 }
 
 export interface ProcessingResult {
@@ -28,8 +48,14 @@ export interface QueryResult extends RAGResponse {
   citations?: Array<{
     chunkId: string;
     pageNumber: number;
+    endPageNumber: number;
     relevanceScore: number;
   }>;
+  papers?: Array<{
+    paperId: string;
+    paperTitle?: string;
+    sources: RAGResponse['sources'];
+  }>;
 }
 
 export class RAGAgent {
@@ -44,6 +70,14 @@ export class RAGAgent {
 
     this.supabaseClient = createClient(config.supabaseUrl, config.supabaseKey);
 
+    // Shared so chunks and queries are embedded alike and a local model loads once
+    const embeddings = createEmbeddingProvider(
+      config.embeddingProvider || 'openai',
+      config.openaiApiKey,
+      config.embeddingModel,
+      config.embeddingDimensions
+    );
+
     this.documentProcessor = new DocumentProcessor(
       config.supabaseUrl,
       config.supabaseKey,
@@ -51,6 +85,11 @@ export class RAGAgent {
       {
         chunkSize: config.chunkSize || 1000,
         chunkOverlap: config.chunkOverlap || 100,
+        parentChunkSize: config.parentChunkSize,
+        semanticChunking: config.semanticChunking,
+        minChunkSize: config.minChunkSize,
+        maxChunkSize: config.maxChunkSize,
+        embeddings,
       }
     );
 
@@ -60,14 +99,33 @@ export class RAGAgent {
       supabaseKey: config.supabaseKey,
       chromaUrl: config.chromaUrl,
       openaiApiKey: config.openaiApiKey,
+      embeddings,
     };
 
     this.vectorStoreManager = new VectorStoreManager(vectorStoreConfig);
 
+    // Rewriting and LLM reranking default to a small OpenAI model; other
+    // providers run them on the deployment's chat model
+    const chatModels = config.chatModels;
+    const helperModel = (maxTokens: number) =>
+      chatModels && chatModels.defaultProvider !== 'openai'
+        ? chatModels.create({}, { temperature: 0, maxTokens })
+        : undefined;
+
     this.ragChain = new RAGChain(
       {
         openaiApiKey: config.openaiApiKey,
         modelName: config.modelName || 'gpt-4-turbo-preview',
+        chatModels,
+        reranker: config.rerankingEnabled
+          ? createReranker(config.rerankerType || 'lexical', config.openaiApiKey, undefined, helperModel(4))
+          : undefined,
+        rerankCandidates: config.rerankCandidates,
+        queryRewriter: config.queryRewritingEnabled !== false
+          ? new QueryRewriter({ openaiApiKey: config.openaiApiKey, llm: helperModel(300) })
+          : undefined,
+        referencesWeight: config.referencesWeight,
+        parentDocuments: config.parentDocumentRetrieval,
       },
       this.vectorStoreManager
     );
@@ -137,7 +195,8 @@ export class RAGAgent {
     userId: string,
     sessionId?: string,
     paperId?: string,
-    options?: RetrievalOptions
+    options?: RetrievalOptions,
+    chatModel?: ChatModelSelection
   ): Promise<QueryResult> {
     // const startTime = Date.now(); // Removed unused variable
 
@@ -146,15 +205,11 @@ export class RAGAgent {
         await this.vectorStoreManager.initialize(paperId);
       }
 
-      const context: ConversationContext | undefined = sessionId
-        ? {
-            sessionId,
-            messages: await this.loadConversationHistory(sessionId),
-            paperId,
-          }
+      const context = sessionId
+        ? await this.buildConversationContext(sessionId, paperId)
         : undefined;
 
-      const response = await this.ragChain.query(question, context, options);
+      const response = await this.ragChain.query(question, context, options, chatModel);
 
       await this.logQuery(
         userId,
@@ -162,12 +217,15 @@ export class RAGAgent {
         question,
         response.queryTime,
         options?.searchType || 'hybrid',
-        response.sources.length
+        response.sources.length,
+        response.rewrittenQuery
       );
 
       if (sessionId) {
         await this.saveMessage(sessionId, 'user', question);
-        await this.saveMessage(sessionId, 'assistant', response.answer);
+        await this.saveMessage(sessionId, 'assistant', response.answer, {
+          citations: citationsFromSources(response.sources),
+        });
 
         if (response.sources.length > 0) {
           await this.saveCitations(sessionId, response.sources);
@@ -178,10 +236,14 @@ export class RAGAgent {
         ...response,
         sessionId,
         citations: response.sources.map((source, idx) => ({
-          chunkId: `chunk_${idx}`,
+          chunkId: source.chunkId || `chunk_${idx}`,
           pageNumber: source.pageNumber || 0,
+          endPageNumber: source.endPageNumber || source.pageNumber || 0,
           relevanceScore: source.score || 0,
         })),
+        papers: options?.paperIds?.length || (context?.paperIds?.length || 0) > 1
+          ? this.groupSourcesByPaper(response.sources)
+          : undefined,
       };
     } catch (error: any) {
       console.error('Query error:', error);
@@ -195,7 +257,8 @@ export class RAGAgent {
     onChunk: (chunk: string) => void,
     sessionId?: string,
     paperId?: string,
-    options?: RetrievalOptions
+    options?: RetrievalOptions,
+    chatModel?: ChatModelSelection
   ): Promise<QueryResult> {
     // const startTime = Date.now(); // Removed unused variable
 
@@ -204,19 +267,16 @@ export class RAGAgent {
         await this.vectorStoreManager.initialize(paperId);
       }
 
-      const context: ConversationContext | undefined = sessionId
-        ? {
-            sessionId,
-            messages: await this.loadConversationHistory(sessionId),
-            paperId,
-          }
+      const context = sessionId
+        ? await this.buildConversationContext(sessionId, paperId)
         : undefined;
 
       const response = await this.ragChain.streamQuery(
         question,
         context,
         options,
-        onChunk
+        onChunk,
+        chatModel
       );
 
       await this.logQuery(
@@ -225,12 +285,15 @@ export class RAGAgent {
         question,
         response.queryTime,
         options?.searchType || 'hybrid',
-        response.sources.length
+        response.sources.length,
+        response.rewrittenQuery
       );
 
       if (sessionId) {
         await this.saveMessage(sessionId, 'user', question);
-        await this.saveMessage(sessionId, 'assistant', response.answer);
+        await this.saveMessage(sessionId, 'assistant', response.answer, {
+          citations: citationsFromSources(response.sources),
+        });
 
         if (response.sources.length > 0) {
           await this.saveCitations(sessionId, response.sources);
@@ -241,10 +304,14 @@ export class RAGAgent {
         ...response,
         sessionId,
         citations: response.sources.map((source, idx) => ({
-          chunkId: `chunk_${idx}`,
+          chunkId: source.chunkId || `chunk_${idx}`,
           pageNumber: source.pageNumber || 0,
+          endPageNumber: source.endPageNumber || source.pageNumber || 0,
           relevanceScore: source.score || 0,
         })),
+        papers: options?.paperIds?.length || (context?.paperIds?.length || 0) > 1
+          ? this.groupSourcesByPaper(response.sources)
+          : undefined,
       };
     } catch (error: any) {
       console.error('Stream query error:', error);
@@ -252,6 +319,50 @@ export class RAGAgent {
     }
   }
 
+  /**
+   * Resolves the papers a library-wide query may search: every paper the user
+   * owns, narrowed to `paperIds` when a subset is given. IDs the user does not
+   * own are dropped.
+   */
+  async resolveLibraryPaperIds(userId: string, paperIds?: string[]): Promise<string[]> {
+    let query = this.supabaseClient
+      .from('papers')
+      .select('id')
+      .eq('user_id', userId);
+
+    if (paperIds && paperIds.length > 0) {
+      query = query.in('id', paperIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load user papers: ${error.message}`);
+    }
+
+    return (data || []).map((paper: any) => paper.id);
+  }
+
+  private groupSourcesByPaper(sources: RAGResponse['sources']): NonNullable<QueryResult['papers']> {
+    const groups = new Map<string, NonNullable<QueryResult['papers']>[number]>();
+
+    for (const source of sources) {
+      if (!source.paperId) continue;
+
+      if (!groups.has(source.paperId)) {
+        groups.set(source.paperId, {
+          paperId: source.paperId,
+          paperTitle: source.paperTitle,
+          sources: [],
+        });
+      }
+      groups.get(source.paperId)!.sources.push(source);
+    }
+
+    // Sources arrive best-first, so insertion order ranks papers by their best hit
+    return [...groups.values()];
+  }
+
   async generateSummary(paperId: string, userId: string): Promise<string> {
     try {
       await this.vectorStoreManager.initialize(paperId);
@@ -273,6 +384,52 @@ export class RAGAgent {
     }
   }
 
+  /**
+   * Builds a side-by-side comparison of the given papers. Papers the user does
+   * not own are rejected rather than silently dropped, since the table would
+   * otherwise be missing a column the caller asked for.
+   */
+  async comparePapers(paperIds: string[], userId: string): Promise<PaperComparison> {
+    try {
+      await this.assertPapersOwned(userId, paperIds);
+
+      const { data: papers, error } = await this.supabaseClient
+        .from('papers')
+        .select('id, title')
+        .in('id', paperIds);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const titles = new Map<string, string>(
+        (papers || []).map((paper: any) => [paper.id, paper.title])
+      );
+
+      const comparison = await this.ragChain.comparePapers(
+        paperIds.map(paperId => ({ paperId, paperTitle: titles.get(paperId) }))
+      );
+
+      await this.logQuery(
+        userId,
+        '',
+        `Compare papers: ${paperIds.join(', ')}`,
+        comparison.queryTime,
+        'comparison',
+        comparison.papers.reduce(
+          (total, paper) =>
+            total + Object.values(paper.cells).reduce((sum, cell) => sum + cell.citations.length, 0),
+          0
+        )
+      );
+
+      return comparison;
+    } catch (error: any) {
+      console.error('Paper comparison error:', error);
+      throw new Error(`Failed to compare papers: ${error.message}`);
+    }
+  }
+
   async extractKeyInsights(paperId: string, userId: string): Promise<string[]> {
     try {
       await this.vectorStoreManager.initialize(paperId);
@@ -296,14 +453,17 @@ export class RAGAgent {
 
   async createChatSession(
     userId: string,
-    paperId: string,
+    paperIds: string | string[],
     title: string
   ): Promise<string> {
+    const ids = [...new Set(Array.isArray(paperIds) ? paperIds : [paperIds])];
+    await this.assertPapersOwned(userId, ids);
+
     const { data, error } = await this.supabaseClient
       .from('chat_sessions')
       .insert({
         user_id: userId,
-        paper_id: paperId,
+        paper_id: ids[0] || null,
         title,
       })
       .select()
@@ -313,9 +473,104 @@ export class RAGAgent {
       throw new Error(`Failed to create chat session: ${error.message}`);
     }
 
+    if (ids.length > 0) {
+      // The primary paper is already attached by the chat_sessions insert trigger
+      const { error: attachError } = await this.supabaseClient
+        .from('chat_session_papers')
+        .upsert(
+          ids.map(paperId => ({ session_id: data.id, paper_id: paperId })),
+          { onConflict: 'session_id,paper_id', ignoreDuplicates: true }
+        );
+
+      if (attachError) {
+        throw new Error(`Failed to attach papers to session: ${attachError.message}`);
+      }
+    }
+
     return data.id;
   }
 
+  async getSessionPaperIds(sessionId: string): Promise<string[]> {
+    const { data, error } = await this.supabaseClient
+      .from('chat_session_papers')
+      .select('paper_id')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get session papers: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => row.paper_id);
+  }
+
+  /**
+   * Replaces the set of papers attached to a session. The first paper becomes
+   * the session's primary `paper_id`.
+   */
+  async setSessionPapers(
+    sessionId: string,
+    userId: string,
+    paperIds: string[]
+  ): Promise<string[]> {
+    const ids = [...new Set(paperIds)];
+    await this.assertPapersOwned(userId, ids);
+
+    const { data: session, error: sessionError } = await this.supabaseClient
+      .from('chat_sessions')
+      .update({ paper_id: ids[0] || null, updated_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .select('id')
+      .single();
+
+    if (sessionError || !session) {
+      throw new Error('Chat session not found');
+    }
+
+    const current = await this.getSessionPaperIds(sessionId);
+    const toRemove = current.filter(id => !ids.includes(id));
+    const toAdd = ids.filter(id => !current.includes(id));
+
+    if (toRemove.length > 0) {
+      const { error } = await this.supabaseClient
+        .from('chat_session_papers')
+        .delete()
+        .eq('session_id', sessionId)
+        .in('paper_id', toRemove);
+
+      if (error) {
+        throw new Error(`Failed to detach papers from session: ${error.message}`);
+      }
+    }
+
+    if (toAdd.length > 0) {
+      const { error } = await this.supabaseClient
+        .from('chat_session_papers')
+        .upsert(
+          toAdd.map(paperId => ({ session_id: sessionId, paper_id: paperId })),
+          { onConflict: 'session_id,paper_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        throw new Error(`Failed to attach papers to session: ${error.message}`);
+      }
+    }
+
+    return ids;
+  }
+
+  private async assertPapersOwned(userId: string, paperIds: string[]): Promise<void> {
+    if (paperIds.length === 0) {
+      return;
+    }
+
+    const owned = await this.resolveLibraryPaperIds(userId, paperIds);
+    if (owned.length !== paperIds.length) {
+      throw new Error('One or more papers were not found');
+    }
+  }
+
   async getChatSession(sessionId: string): Promise<any> {
     const { data, error } = await this.supabaseClient
       .from('chat_sessions')
@@ -326,6 +581,13 @@ export class RAGAgent {
           role,
           content,
           created_at
+        ),
+        chat_session_papers (
+          paper_id,
+          papers (
+            id,
+            title
+          )
         )
       `)
       .eq('id', sessionId)
@@ -358,12 +620,29 @@ export class RAGAgent {
     return data || [];
   }
 
+  private async buildConversationContext(
+    sessionId: string,
+    paperId?: string
+  ): Promise<ConversationContext> {
+    const [messages, paperIds] = await Promise.all([
+      this.loadConversationHistory(sessionId),
+      this.getSessionPaperIds(sessionId).catch(() => []),
+    ]);
+
+    return {
+      sessionId,
+      messages,
+      paperId: paperId || paperIds[0],
+      paperIds,
+    };
+  }
+
   private async loadConversationHistory(sessionId: string): Promise<BaseMessage[]> {
     const { data, error } = await this.supabaseClient
       .from('chat_messages')
       .select('*')
       .eq('session_id', sessionId)
-      .order('created_at', { ascending: true })
+      .order('created_at', { ascending: false })
       .limit(20);
 
     if (error || !data) {
@@ -372,7 +651,8 @@ export class RAGAgent {
 
     const { HumanMessage, AIMessage } = await import('@langchain/core/messages');
 
-    return data.map((msg: any) => {
+    // The latest 20 messages, oldest first
+    return data.reverse().map((msg: any) => {
       if (msg.role === 'user') {
         return new HumanMessage(msg.content);
       } else {
@@ -384,12 +664,14 @@ export class RAGAgent {
   private async saveMessage(
     sessionId: string,
     role: string,
-    content: string
+    content: string,
+    metadata?: Record<string, unknown>
   ): Promise<void> {
     await this.supabaseClient.from('chat_messages').insert({
       session_id: sessionId,
       role,
       content,
+      metadata: metadata ?? null,
     });
 
     await this.supabaseClient
@@ -414,9 +696,10 @@ export class RAGAgent {
     if (lastMessage) {
       const citations = sources.map((source, idx) => ({
         message_id: lastMessage.id,
-        chunk_id: `chunk_${idx}`,
+        chunk_id: source.chunkId || `chunk_${idx}`,
         score: source.score || 0,
         page_no: source.pageNumber || 0,
+        end_page_no: source.endPageNumber ?? source.pageNumber ?? null,
       }));
 
       await this.supabaseClient.from('message_citations').insert(citations);
@@ -442,12 +725,14 @@ export class RAGAgent {
     query: string,
     queryTime: number,
     retrievalMethod: string,
-    chunksRetrieved: number
+    chunksRetrieved: number,
+    rewrittenQuery?: string
   ): Promise<void> {
     await this.supabaseClient.from('rag_query_logs').insert({
       user_id: userId,
       session_id: sessionId || null,
       query,
+      rewritten_query: rewrittenQuery || null,
       retrieval_method: retrievalMethod,
       num_chunks_retrieved: chunksRetrieved,
       retrieval_time_ms: queryTime,
@@ -1,4 +1,5 @@
 import { ChatOpenAI } from '@langchain/openai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import {
   ChatPromptTemplate,
   SystemMessagePromptTemplate,
@@ -13,7 +14,11 @@ import {
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { Document } from 'langchain/document';
 import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
-import { VectorStoreManager, RetrievalOptions } from './vector_store';
+import { VectorStoreManager, RetrievalOptions, paperScopeFilter } from './vector_store';
+import { Reranker } from './reranker';
+import { QueryRewriter } from './query_rewriter';
+import { ChatModelRegistry, ChatModelSelection } from './chat_models';
+import type { PageSpan } from './pages';
 
 export interface RAGChainConfig {
   openaiApiKey: string;
@@ -21,42 +26,126 @@ export interface RAGChainConfig {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  // Builds the default model and any per-request override; without it the
+  // chain answers with OpenAI `modelName`
+  chatModels?: ChatModelRegistry;
+  // Used as is instead, e.g. a ScriptedChatModel in tests
+  llm?: BaseChatModel;
+  reranker?: Reranker;
+  rerankCandidates?: number;
+  queryRewriter?: QueryRewriter;
+  referencesWeight?: number;
+  parentDocuments?: boolean;
 }
 
 export interface RAGResponse {
   answer: string;
   sources: Array<{
+    chunkId?: string;
     content: string;
     pageNumber?: number;
+    endPageNumber?: number;
+    charStart?: number | null;
+    charEnd?: number | null;
+    pageSpans?: PageSpan[];
     score?: number;
+    paperId?: string;
+    paperTitle?: string;
+    // Paper version the chunk was extracted from
+    versionId?: string | null;
+    versionNumber?: number | null;
+    // Set for chunks rendered from a table (see lib/rag/tables.ts)
+    tableId?: string | null;
+    tableLabel?: string | null;
   }>;
   queryTime: number;
+  rewrittenQuery?: string;
+  queryVariants?: string[];
 }
 
 export interface ConversationContext {
   sessionId: string;
   messages: BaseMessage[];
   paperId?: string;
+  paperIds?: string[];
+}
+
+export const COMPARISON_DIMENSIONS = [
+  'problem',
+  'method',
+  'datasets',
+  'metrics',
+  'results',
+  'limitations',
+] as const;
+
+export type ComparisonDimension = typeof COMPARISON_DIMENSIONS[number];
+
+const COMPARISON_QUERIES: Record<ComparisonDimension, string> = {
+  problem: 'research problem, motivation and research question addressed by the paper',
+  method: 'proposed method, model architecture and overall approach',
+  datasets: 'datasets, benchmarks and experimental setup used for evaluation',
+  metrics: 'evaluation metrics used to measure performance',
+  results: 'main quantitative results and comparison against baselines',
+  limitations: 'limitations, weaknesses, threats to validity and future work',
+};
+
+// How a chunk's location is written into the model's context
+function pageLabel(startPage: number, endPage?: number): string {
+  return endPage && endPage !== startPage ? `Pages ${startPage}-${endPage}` : `Page ${startPage}`;
+}
+
+export interface ComparisonCell {
+  value: string;
+  citations: RAGResponse['sources'];
+}
+
+export interface PaperComparison {
+  dimensions: ComparisonDimension[];
+  papers: Array<{
+    paperId: string;
+    paperTitle?: string;
+    cells: Record<ComparisonDimension, ComparisonCell>;
+  }>;
+  queryTime: number;
 }
 
 export class RAGChain {
-  private llm: ChatOpenAI;
+  private llm: BaseChatModel;
+  private chatModels?: ChatModelRegistry;
+  private temperature: number;
+  private maxTokens: number;
   private vectorStore: VectorStoreManager;
   private systemPrompt: string;
+  private reranker?: Reranker;
+  private rerankCandidates: number;
+  private queryRewriter?: QueryRewriter;
+  private referencesWeight: number;
+  private parentDocuments: boolean;
   private conversationHistory: Map<string, BaseMessage[]> = new Map();
 
   constructor(
     config: RAGChainConfig,
     vectorStore: VectorStoreManager
   ) {
-    this.llm = new ChatOpenAI({
-      openAIApiKey: config.openaiApiKey,
-      modelName: config.modelName || 'gpt-4-turbo-preview',
-      temperature: config.temperature || 0.7,
-      maxTokens: config.maxTokens || 2000,
-    });
+    this.temperature = config.temperature || 0.7;
+    this.maxTokens = config.maxTokens || 2000;
+    this.chatModels = config.chatModels;
+    this.llm = config.llm || (config.chatModels
+      ? config.chatModels.create({}, { temperature: this.temperature, maxTokens: this.maxTokens })
+      : new ChatOpenAI({
+          openAIApiKey: config.openaiApiKey,
+          modelName: config.modelName || 'gpt-4-turbo-preview',
+          temperature: this.temperature,
+          maxTokens: this.maxTokens,
+        }));
 
     this.vectorStore = vectorStore;
+    this.reranker = config.reranker;
+    this.rerankCandidates = config.rerankCandidates || 20;
+    this.queryRewriter = config.queryRewriter;
+    this.referencesWeight = config.referencesWeight ?? 0.5;
+    this.parentDocuments = config.parentDocuments ?? true;
 
     this.systemPrompt = config.systemPrompt || `You are a helpful AI assistant specializing in analyzing academic papers and research documents.
     Your role is to provide accurate, insightful answers based on the provided context from the documents.
@@ -66,20 +155,24 @@ export class RAGChain {
     2. If the context doesn't contain enough information, acknowledge this limitation
     3. Cite specific sections or page numbers when referencing the source material
     4. Maintain academic rigor and precision in your responses
-    5. If asked about something not in the context, clearly state that the information is not available in the provided documents`;
+    5. If asked about something not in the context, clearly state that the information is not available in the provided documents
+    6. When the context comes from several papers, attribute each claim to its paper, e.g. (Paper Title, p. 4)
+    7. Tables are given row by row as "column: value" pairs; quote numbers exactly as they appear in the cells and name the table, row and column they come from`;
   }
 
   async query(
     question: string,
     context?: ConversationContext,
-    retrievalOptions?: RetrievalOptions
+    retrievalOptions?: RetrievalOptions,
+    chatModel?: ChatModelSelection
   ): Promise<RAGResponse> {
     const startTime = Date.now();
 
+    const queries = await this.buildRetrievalQueries(question, context, retrievalOptions);
     const retrievedDocs = await this.retrieveDocuments(
-      question,
+      queries,
       context?.paperId,
-      retrievalOptions
+      this.withSessionScope(retrievalOptions, context)
     );
 
     const formattedContext = this.formatDocuments(retrievedDocs);
@@ -105,7 +198,7 @@ export class RAGChain {
         history: () => conversationHistory,
       }),
       prompt,
-      this.llm,
+      this.modelFor(chatModel),
       new StringOutputParser(),
     ]);
 
@@ -123,12 +216,10 @@ export class RAGChain {
 
     return {
       answer,
-      sources: retrievedDocs.map(doc => ({
-        content: doc.pageContent,
-        pageNumber: doc.metadata?.pageNumber,
-        score: doc.metadata?.score,
-      })),
+      sources: this.toSources(retrievedDocs),
       queryTime,
+      rewrittenQuery: queries[0] !== question ? queries[0] : undefined,
+      queryVariants: queries.length > 1 ? queries.slice(1) : undefined,
     };
   }
 
@@ -136,14 +227,16 @@ export class RAGChain {
     question: string,
     context?: ConversationContext,
     retrievalOptions?: RetrievalOptions,
-    onChunk?: (chunk: string) => void
+    onChunk?: (chunk: string) => void,
+    chatModel?: ChatModelSelection
   ): Promise<RAGResponse> {
     const startTime = Date.now();
 
+    const queries = await this.buildRetrievalQueries(question, context, retrievalOptions);
     const retrievedDocs = await this.retrieveDocuments(
-      question,
+      queries,
       context?.paperId,
-      retrievalOptions
+      this.withSessionScope(retrievalOptions, context)
     );
 
     const formattedContext = this.formatDocuments(retrievedDocs);
@@ -168,7 +261,7 @@ export class RAGChain {
         history: () => conversationHistory,
       }),
       prompt,
-      this.llm,
+      this.modelFor(chatModel),
       new StringOutputParser(),
     ]);
 
@@ -194,20 +287,74 @@ export class RAGChain {
 
     return {
       answer: fullAnswer,
-      sources: retrievedDocs.map(doc => ({
-        content: doc.pageContent,
-        pageNumber: doc.metadata?.pageNumber,
-        score: doc.metadata?.score,
-      })),
+      sources: this.toSources(retrievedDocs),
       queryTime,
+      rewrittenQuery: queries[0] !== question ? queries[0] : undefined,
+      queryVariants: queries.length > 1 ? queries.slice(1) : undefined,
     };
   }
 
+  /**
+   * The default model, or a fresh one when the request picks another
+   * provider or model from the registry.
+   */
+  private modelFor(selection?: ChatModelSelection): BaseChatModel {
+    if (!selection?.provider && !selection?.model) {
+      return this.llm;
+    }
+    if (!this.chatModels) {
+      throw new Error('Choosing a chat model per request requires a chat model registry');
+    }
+
+    return this.chatModels.create(selection, { temperature: this.temperature, maxTokens: this.maxTokens });
+  }
+
+  /**
+   * Sessions with several attached papers search all of them unless the
+   * caller already scoped the request explicitly.
+   */
+  private withSessionScope(
+    options?: RetrievalOptions,
+    context?: ConversationContext
+  ): RetrievalOptions | undefined {
+    if (options?.paperIds?.length || (context?.paperIds?.length || 0) < 2) {
+      return options;
+    }
+
+    return { ...options, paperIds: context!.paperIds };
+  }
+
+  /**
+   * Returns the queries to retrieve with, primary first: the question made
+   * standalone using the session history, followed by any paraphrases when
+   * multi-query expansion is requested.
+   */
+  private async buildRetrievalQueries(
+    question: string,
+    context?: ConversationContext,
+    options?: RetrievalOptions
+  ): Promise<string[]> {
+    if (!this.queryRewriter) {
+      return [question];
+    }
+
+    const standalone = context?.messages?.length
+      ? await this.queryRewriter.condense(question, context.messages)
+      : question;
+
+    const variants = options?.multiQueryCount
+      ? await this.queryRewriter.expand(standalone, options.multiQueryCount)
+      : [];
+
+    return [standalone, ...variants];
+  }
+
   private async retrieveDocuments(
-    query: string,
+    queries: string[],
     paperId?: string,
     options?: RetrievalOptions
   ): Promise<Document[]> {
+    const [query] = queries;
     const defaultOptions: RetrievalOptions = {
       k: 20,
       searchType: 'hybrid',
@@ -215,13 +362,95 @@ export class RAGChain {
       ...options,
     };
 
-    if (defaultOptions.searchType === 'hybrid' && paperId) {
-      return await this.vectorStore.hybridSearch(query, paperId, defaultOptions);
-    } else if (defaultOptions.searchType === 'mmr') {
-      return await this.vectorStore.maxMarginalRelevanceSearch(query, defaultOptions);
-    } else {
-      return await this.vectorStore.similaritySearch(query, defaultOptions);
+    const k = defaultOptions.k!;
+    const paperIds = defaultOptions.paperIds?.length
+      ? defaultOptions.paperIds
+      : paperId ? [paperId] : undefined;
+    const isLibraryScope = !!defaultOptions.paperIds?.length;
+
+    // MMR already trades relevance against diversity; reranking purely on
+    // relevance afterwards would bring the near-duplicates back
+    const reranker = defaultOptions.searchType === 'mmr' ? undefined : this.reranker;
+
+    // Over-fetch so the reranker has something to choose from
+    const searchOptions: RetrievalOptions = reranker
+      ? { ...defaultOptions, k: Math.max(k, this.rerankCandidates) }
+      : defaultOptions;
+
+    const search = (searchQuery: string): Promise<Document[]> => {
+      if (searchOptions.searchType === 'hybrid' && paperIds) {
+        return this.vectorStore.hybridSearch(searchQuery, paperIds, searchOptions);
+      }
+
+      const scopedOptions: RetrievalOptions = paperIds && !searchOptions.filter
+        ? { ...searchOptions, filter: paperScopeFilter(paperIds) }
+        : searchOptions;
+
+      return searchOptions.searchType === 'mmr'
+        ? this.vectorStore.maxMarginalRelevanceSearch(searchQuery, scopedOptions)
+        : this.vectorStore.similaritySearch(searchQuery, scopedOptions);
+    };
+
+    let documents = queries.length > 1
+      ? this.unionResults(await Promise.all(queries.map(search)))
+      : await search(query);
+
+    if (reranker && documents.length > 0) {
+      // Order the whole candidate set; trimming to k waits for section weighting
+      documents = await reranker.rerank(query, documents, documents.length);
     }
+
+    documents = this.applySectionWeights(documents, defaultOptions).slice(0, k);
+
+    if (this.parentDocuments) {
+      documents = await this.vectorStore.attachParentContent(documents);
+    }
+
+    return isLibraryScope
+      ? await this.vectorStore.attachPaperTitles(documents)
+      : documents;
+  }
+
+  /**
+   * Pushes reference-list chunks down the ranking: they match many queries on
+   * shared terms but rarely answer anything. Skipped when the caller asked for
+   * the references section explicitly.
+   */
+  private applySectionWeights(documents: Document[], options: RetrievalOptions): Document[] {
+    if (this.referencesWeight >= 1 || options.includeSections?.includes('references')) {
+      return documents;
+    }
+
+    return documents
+      .map((doc, index) => ({
+        doc: doc.metadata?.chunkType === 'references'
+          ? new Document({
+              pageContent: doc.pageContent,
+              metadata: { ...doc.metadata, score: (doc.metadata.score ?? 0) * this.referencesWeight },
+            })
+          : doc,
+        index,
+      }))
+      .sort((a, b) => (b.doc.metadata?.score ?? 0) - (a.doc.metadata?.score ?? 0) || a.index - b.index)
+      .map(({ doc }) => doc);
+  }
+
+  /**
+   * Merges the result lists of several queries, keeping each chunk once with
+   * the best score any query gave it.
+   */
+  private unionResults(resultLists: Document[][]): Document[] {
+    const best = new Map<string, Document>();
+
+    for (const doc of resultLists.flat()) {
+      const key = doc.metadata?.id ?? doc.pageContent;
+      const existing = best.get(key);
+      if (!existing || (doc.metadata?.score ?? 0) > (existing.metadata?.score ?? 0)) {
+        best.set(key, doc);
+      }
+    }
+
+    return [...best.values()].sort((a, b) => (b.metadata?.score ?? 0) - (a.metadata?.score ?? 0));
   }
 
   private formatDocuments(documents: Document[]): string {
@@ -229,16 +458,48 @@ export class RAGChain {
       return 'No relevant documents found.';
     }
 
-    return documents
+    // Several matched chunks often share a parent span; send each span once
+    const seenParents = new Set<string>();
+    const blocks = documents.filter(doc => {
+      const parentId = doc.metadata?.parentContent ? doc.metadata.parentId : null;
+      if (!parentId) return true;
+      if (seenParents.has(parentId)) return false;
+      seenParents.add(parentId);
+      return true;
+    });
+
+    return blocks
       .map((doc, index) => {
-        const pageInfo = doc.metadata?.pageNumber
-          ? ` (Page ${doc.metadata.pageNumber})`
-          : '';
-        return `[Document ${index + 1}${pageInfo}]:\n${doc.pageContent}`;
+        const location = [
+          doc.metadata?.paperTitle ? `"${doc.metadata.paperTitle}"` : null,
+          doc.metadata?.tableId ? doc.metadata.tableLabel || 'table' : null,
+          doc.metadata?.pageNumber ? pageLabel(doc.metadata.pageNumber, doc.metadata.endPageNumber) : null,
+        ].filter(Boolean).join(', ');
+        const pageInfo = location ? ` (${location})` : '';
+        return `[Document ${index + 1}${pageInfo}]:\n${doc.metadata?.parentContent || doc.pageContent}`;
       })
       .join('\n\n---\n\n');
   }
 
+  private toSources(documents: Document[]): RAGResponse['sources'] {
+    return documents.map(doc => ({
+      chunkId: doc.metadata?.id,
+      content: doc.pageContent,
+      pageNumber: doc.metadata?.pageNumber,
+      endPageNumber: doc.metadata?.endPageNumber,
+      charStart: doc.metadata?.charStart,
+      charEnd: doc.metadata?.charEnd,
+      pageSpans: doc.metadata?.pageSpans,
+      score: doc.metadata?.score,
+      paperId: doc.metadata?.paper_id,
+      paperTitle: doc.metadata?.paperTitle,
+      versionId: doc.metadata?.versionId,
+      versionNumber: doc.metadata?.versionNumber,
+      tableId: doc.metadata?.tableId,
+      tableLabel: doc.metadata?.tableLabel,
+    }));
+  }
+
   private getConversationHistory(sessionId: string): BaseMessage[] {
     return this.conversationHistory.get(sessionId) || [];
   }
@@ -303,6 +564,123 @@ export class RAGChain {
     return await chain.invoke({});
   }
 
+  /**
+   * Builds a side-by-side table with one row per paper. Each paper is filled
+   * independently from chunks retrieved per dimension, and every cell keeps
+   * the chunks the model cited for it.
+   */
+  async comparePapers(
+    papers: Array<{ paperId: string; paperTitle?: string }>
+  ): Promise<PaperComparison> {
+    const startTime = Date.now();
+
+    const rows = await Promise.all(
+      papers.map(async ({ paperId, paperTitle }) => ({
+        paperId,
+        paperTitle,
+        cells: await this.extractComparisonRow(paperId),
+      }))
+    );
+
+    return {
+      dimensions: [...COMPARISON_DIMENSIONS],
+      papers: rows,
+      queryTime: Date.now() - startTime,
+    };
+  }
+
+  private async extractComparisonRow(
+    paperId: string
+  ): Promise<Record<ComparisonDimension, ComparisonCell>> {
+    const perDimension = await Promise.all(
+      COMPARISON_DIMENSIONS.map(dimension =>
+        this.vectorStore.similaritySearch(COMPARISON_QUERIES[dimension], {
+          k: 3,
+          filter: { paper_id: paperId },
+          excludeSections: ['references'],
+        })
+      )
+    );
+
+    // Number each distinct chunk once so the model can cite it by index
+    const chunks: Document[] = [];
+    const seen = new Set<string>();
+    for (const doc of perDimension.flat()) {
+      if (!seen.has(doc.metadata.id)) {
+        seen.add(doc.metadata.id);
+        chunks.push(doc);
+      }
+    }
+
+    const emptyRow = {} as Record<ComparisonDimension, ComparisonCell>;
+    for (const dimension of COMPARISON_DIMENSIONS) {
+      emptyRow[dimension] = { value: 'Not reported', citations: [] };
+    }
+
+    if (chunks.length === 0) {
+      return emptyRow;
+    }
+
+    const context = chunks
+      .map((doc, index) => {
+        const pageInfo = doc.metadata?.pageNumber
+          ? ` (${pageLabel(doc.metadata.pageNumber, doc.metadata.endPageNumber)})`
+          : '';
+        return `[${index + 1}]${pageInfo}:\n${doc.pageContent}`;
+      })
+      .join('\n\n---\n\n');
+
+    const prompt = ChatPromptTemplate.fromMessages([
+      SystemMessagePromptTemplate.fromTemplate(
+        'You extract structured facts from an academic paper for a comparison table. ' +
+        'Use only the numbered excerpts provided. Keep each value to one or two sentences. ' +
+        'If an excerpt does not cover a field, use "Not reported" with no citations.'
+      ),
+      SystemMessagePromptTemplate.fromTemplate('Excerpts:\n{context}'),
+      HumanMessagePromptTemplate.fromTemplate('{request}'),
+    ]);
+
+    // Passed in as a variable, so the braces are not template placeholders
+    const request = `Fill these fields: ${COMPARISON_DIMENSIONS.join(', ')}. ` +
+      'Respond with JSON only, shaped as {"<field>": {"value": "...", "citations": [<excerpt numbers>]}}.';
+
+    const chain = RunnableSequence.from([
+      {
+        context: () => context,
+        request: () => request,
+      },
+      prompt,
+      this.llm,
+      new StringOutputParser(),
+    ]);
+
+    const response = await chain.invoke({});
+
+    let parsed: Record<string, { value?: string; citations?: number[] }>;
+    try {
+      const json = response.slice(response.indexOf('{'), response.lastIndexOf('}') + 1);
+      parsed = JSON.parse(json);
+    } catch (error) {
+      console.error('Comparison parsing error:', error);
+      return emptyRow;
+    }
+
+    const row = {} as Record<ComparisonDimension, ComparisonCell>;
+    for (const dimension of COMPARISON_DIMENSIONS) {
+      const cell = parsed[dimension] || {};
+      const citedChunks = (Array.isArray(cell.citations) ? cell.citations : [])
+        .map(index => chunks[Number(index) - 1])
+        .filter((doc): doc is Document => !!doc);
+
+      row[dimension] = {
+        value: typeof cell.value === 'string' && cell.value.trim() ? cell.value.trim() : 'Not reported',
+        citations: this.toSources(citedChunks),
+      };
+    }
+
+    return row;
+  }
+
   async extractKeyInsights(paperId: string): Promise<string[]> {
     const insightsPrompt = `Extract the 5-7 most important insights, findings, or contributions from this paper.
     Format each as a concise bullet point.`;
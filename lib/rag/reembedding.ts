@@ -0,0 +1,277 @@
+import type { EmbeddingProvider } from './embeddings';
+import type { EmbeddingProviderType } from './constants';
+
+// 'staged': every chunk in scope has a staged vector, waiting to be promoted
+export type EmbeddingMigrationStatus = 'running' | 'staged' | 'completed' | 'failed' | 'cancelled';
+
+export interface EmbeddingMigration {
+  id: string;
+  provider: EmbeddingProviderType;
+  target_model: string;
+  target_dimensions: number;
+  paper_ids: string[] | null;
+  status: EmbeddingMigrationStatus;
+  total_chunks: number;
+  processed_chunks: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface EmbeddingTarget {
+  provider: EmbeddingProviderType;
+  model: string;
+  dimensions: number;
+}
+
+interface EmbeddingMigratorOptions {
+  batchSize?: number;
+  // Running migrations without progress for this long were interrupted
+  staleAfterMs?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 64;
+const STALE_AFTER_MS = 5 * 60_000;
+
+function httpError(message: string, status: number): Error {
+  const error = new Error(message) as any;
+  error.status = status;
+  return error;
+}
+
+/**
+ * Moves chunk vectors to another embedding model. New vectors are staged next
+ * to the live ones batch by batch, so an interrupted run resumes where it
+ * stopped instead of starting over. They are swapped in together by an
+ * explicit `promote` once every chunk has one.
+ */
+export class EmbeddingMigrator {
+  private batchSize: number;
+  private staleAfterMs: number;
+
+  constructor(private supabase: any, options: EmbeddingMigratorOptions = {}) {
+    this.batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    this.staleAfterMs = options.staleAfterMs || STALE_AFTER_MS;
+  }
+
+  /**
+   * Records a migration of `paperIds` (every paper when omitted) to `target`.
+   * Fails with 409 while another migration is running.
+   */
+  async create(target: EmbeddingTarget, paperIds?: string[]): Promise<EmbeddingMigration> {
+    const scope = paperIds?.length ? paperIds : null;
+
+    const { data: remaining, error: countError } = await this.supabase.rpc('count_chunks_to_reembed', {
+      target_model: target.model,
+      paper_ids: scope,
+    });
+
+    if (countError) {
+      throw new Error(`Failed to count chunks: ${countError.message}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('embedding_migrations')
+      .insert({
+        provider: target.provider,
+        target_model: target.model,
+        target_dimensions: target.dimensions,
+        paper_ids: scope,
+        total_chunks: remaining || 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw httpError('Another re-embedding run is in progress', 409);
+      }
+      throw new Error(`Failed to create re-embedding run: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async get(migrationId: string): Promise<EmbeddingMigration | null> {
+    const { data } = await this.supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('id', migrationId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  async list(limit: number = 20): Promise<EmbeddingMigration[]> {
+    const { data } = await this.supabase
+      .from('embedding_migrations')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    return data || [];
+  }
+
+  /**
+   * Marks a failed, cancelled or interrupted migration as running again.
+   * Chunks staged before it stopped are not embedded a second time.
+   */
+  async resume(migrationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.get(migrationId);
+    if (!migration) {
+      throw httpError('Re-embedding run not found', 404);
+    }
+
+    const interrupted = migration.status === 'running' &&
+      Date.now() - new Date(migration.updated_at).getTime() > this.staleAfterMs;
+
+    if (migration.status === 'completed' || (migration.status === 'running' && !interrupted)) {
+      throw httpError(`Re-embedding run is already ${migration.status}`, 409);
+    }
+
+    const { data, error } = await this.supabase
+      .from('embedding_migrations')
+      .update({ status: 'running', last_error: null, updated_at: new Date().toISOString() })
+      .eq('id', migrationId)
+      .eq('updated_at', migration.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (error?.code === '23505') {
+      throw httpError('Another re-embedding run is in progress', 409);
+    }
+    if (error || !data) {
+      throw httpError('Re-embedding run changed while resuming; try again', 409);
+    }
+
+    return data;
+  }
+
+  /**
+   * Stops a running migration after its current batch. Staged vectors are
+   * kept for a later resume; the live vectors are untouched.
+   */
+  async cancel(migrationId: string): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('embedding_migrations')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', migrationId)
+      .eq('status', 'running')
+      .select('id');
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Embeds every remaining chunk in scope with `embeddings` and marks the
+   * migration staged; `promote` makes the vectors live. Returns the migration
+   * as it ended.
+   */
+  async run(migration: EmbeddingMigration, embeddings: EmbeddingProvider): Promise<EmbeddingMigration> {
+    let processed = migration.processed_chunks;
+
+    try {
+      for (;;) {
+        const current = await this.get(migration.id);
+        if (current?.status !== 'running') {
+          return current || migration;
+        }
+
+        const { data: chunks, error } = await this.supabase.rpc('next_chunks_to_reembed', {
+          target_model: migration.target_model,
+          paper_ids: migration.paper_ids,
+          batch_size: this.batchSize,
+        });
+
+        if (error) {
+          throw new Error(`Failed to load chunks: ${error.message}`);
+        }
+        if (!chunks?.length) {
+          break;
+        }
+
+        const vectors = await embeddings.embedDocuments(chunks.map((chunk: any) => chunk.content));
+        const { error: stageError } = await this.supabase.rpc('stage_chunk_embeddings', {
+          target_model: migration.target_model,
+          chunks: chunks.map((chunk: any, index: number) => ({
+            id: chunk.id,
+            embedding: JSON.stringify(vectors[index]),
+          })),
+        });
+
+        if (stageError) {
+          throw new Error(`Failed to stage embeddings: ${stageError.message}`);
+        }
+
+        processed += chunks.length;
+        await this.update(migration.id, { processed_chunks: processed });
+      }
+
+      return await this.update(migration.id, { status: 'staged' });
+    } catch (error: any) {
+      console.error(`Re-embedding run ${migration.id} failed:`, error);
+      return await this.update(migration.id, {
+        status: 'failed',
+        last_error: error?.message || String(error),
+      });
+    }
+  }
+
+  /**
+   * Swaps a staged migration's vectors in for the live ones. Refused while any
+   * chunk in the library still lacks a vector from the target model, so
+   * promoting a subset cannot leave the library on two models.
+   */
+  async promote(migrationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.get(migrationId);
+    if (!migration) {
+      throw httpError('Re-embedding run not found', 404);
+    }
+    if (migration.status !== 'staged') {
+      throw httpError(`Re-embedding run is ${migration.status}; only a staged run can be promoted`, 409);
+    }
+
+    const { data: remaining, error: countError } = await this.supabase.rpc('count_chunks_to_reembed', {
+      target_model: migration.target_model,
+      paper_ids: null,
+    });
+
+    if (countError) {
+      throw new Error(`Failed to count chunks: ${countError.message}`);
+    }
+    if (remaining > 0) {
+      throw httpError(`${remaining} chunks have no ${migration.target_model} vector yet; re-embed them before promoting`, 409);
+    }
+
+    // Every paper, so vectors staged by earlier runs for other papers go live too
+    const { error } = await this.supabase.rpc('promote_staged_embeddings', {
+      target_model: migration.target_model,
+      target_dimensions: migration.target_dimensions,
+      paper_ids: null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to promote embeddings: ${error.message}`);
+    }
+
+    return await this.update(migration.id, {
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  private async update(
+    migrationId: string,
+    changes: Partial<EmbeddingMigration>
+  ): Promise<EmbeddingMigration> {
+    const { data } = await this.supabase
+      .from('embedding_migrations')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', migrationId)
+      .select()
+      .single();
+
+    return data;
+  }
+}
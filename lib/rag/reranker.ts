@@ -0,0 +1,150 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { Document } from '@langchain/core/documents';
+
+export interface Reranker {
+  /**
+   * Scores every candidate against the query and returns the best `k`,
+   * highest first. The new score replaces `metadata.score`; the score the
+   * candidate was retrieved with is kept as `metadata.retrievalScore`.
+   */
+  rerank(query: string, documents: Document[], k: number): Promise<Document[]>;
+}
+
+export interface LLMRerankerConfig {
+  openaiApiKey: string;
+  modelName?: string;
+  // Grades with this model instead of OpenAI `modelName`
+  llm?: BaseChatModel;
+  concurrency?: number;
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from',
+  'what', 'which', 'how', 'does', 'did', 'have', 'has', 'its', 'their', 'they',
+  'into', 'about', 'than', 'then', 'there', 'these', 'those', 'been', 'can',
+  'paper', 'authors', 'use', 'used', 'using',
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9\-_.]*[a-z0-9]|[a-z0-9]/g) || [])
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+}
+
+function withScore(doc: Document, score: number): Document {
+  return new Document({
+    pageContent: doc.pageContent,
+    metadata: {
+      ...doc.metadata,
+      retrievalScore: doc.metadata?.score ?? null,
+      score,
+    },
+  });
+}
+
+function topK(scored: Array<{ doc: Document; score: number; index: number }>, k: number): Document[] {
+  return scored
+    // Ties keep the retrieval order
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, k)
+    .map(({ doc, score }) => withScore(doc, score));
+}
+
+/**
+ * Cheap offline scorer: IDF-weighted share of the query terms found in each
+ * candidate, with document frequencies taken from the candidate set itself.
+ */
+export class LexicalOverlapReranker implements Reranker {
+  async rerank(query: string, documents: Document[], k: number): Promise<Document[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    const docTerms = documents.map(doc => new Set(tokenize(doc.pageContent)));
+
+    if (queryTerms.length === 0) {
+      return topK(documents.map((doc, index) => ({ doc, score: 0, index })), k);
+    }
+
+    const weights = queryTerms.map(term => {
+      const df = docTerms.filter(terms => terms.has(term)).length;
+      return Math.log(1 + documents.length / (1 + df));
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const scored = documents.map((doc, index) => {
+      const matchedWeight = queryTerms.reduce(
+        (sum, term, termIndex) => sum + (docTerms[index].has(term) ? weights[termIndex] : 0),
+        0
+      );
+      return { doc, score: totalWeight > 0 ? matchedWeight / totalWeight : 0, index };
+    });
+
+    return topK(scored, k);
+  }
+}
+
+/**
+ * Pointwise LLM scorer: asks the model to grade each candidate from 0 to 10
+ * independently. Falls back to lexical overlap if the model cannot be reached.
+ */
+export class LLMReranker implements Reranker {
+  private llm: BaseChatModel;
+  private concurrency: number;
+  private fallback = new LexicalOverlapReranker();
+
+  constructor(config: LLMRerankerConfig) {
+    this.llm = config.llm || new ChatOpenAI({
+      openAIApiKey: config.openaiApiKey,
+      modelName: config.modelName || 'gpt-4o-mini',
+      temperature: 0,
+      maxTokens: 4,
+    });
+    this.concurrency = config.concurrency || 5;
+  }
+
+  async rerank(query: string, documents: Document[], k: number): Promise<Document[]> {
+    try {
+      const scores: number[] = new Array(documents.length);
+
+      for (let i = 0; i < documents.length; i += this.concurrency) {
+        const batch = documents.slice(i, i + this.concurrency);
+        const batchScores = await Promise.all(batch.map(doc => this.scoreDocument(query, doc)));
+        batchScores.forEach((score, batchIndex) => {
+          scores[i + batchIndex] = score;
+        });
+      }
+
+      return topK(documents.map((doc, index) => ({ doc, score: scores[index], index })), k);
+    } catch (error) {
+      console.warn('LLM reranking failed, falling back to lexical overlap:', error);
+      return this.fallback.rerank(query, documents, k);
+    }
+  }
+
+  private async scoreDocument(query: string, doc: Document): Promise<number> {
+    const response = await this.llm.invoke([
+      [
+        'system',
+        'You grade how well a passage from an academic paper answers a question. ' +
+        'Reply with a single integer from 0 (irrelevant) to 10 (directly answers it) and nothing else.',
+      ],
+      ['human', `Question: ${query}\n\nPassage:\n${doc.pageContent}`],
+    ]);
+
+    const match = String(response.content).match(/\d+(\.\d+)?/);
+    if (!match) {
+      return 0;
+    }
+
+    return Math.min(Math.max(parseFloat(match[0]), 0), 10) / 10;
+  }
+}
+
+export function createReranker(
+  type: 'llm' | 'lexical',
+  openaiApiKey: string,
+  modelName?: string,
+  llm?: BaseChatModel
+): Reranker {
+  return type === 'llm'
+    ? new LLMReranker({ openaiApiKey, modelName, llm })
+    : new LexicalOverlapReranker();
+}
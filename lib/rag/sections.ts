@@ -0,0 +1,64 @@
+// Section labels stored in paper_chunks_metadata.chunk_type. Kept free of
+// server-only imports so the chat UI can offer the same list.
+export const CHUNK_TYPES = [
+  'abstract',
+  'introduction',
+  'methodology',
+  'results',
+  'conclusion',
+  'references',
+  'figure_caption',
+  'table',
+  'body',
+] as const;
+
+export type ChunkType = typeof CHUNK_TYPES[number];
+
+export const CHUNK_TYPE_LABELS: Record<ChunkType, string> = {
+  abstract: 'Abstract',
+  introduction: 'Introduction',
+  methodology: 'Methods',
+  results: 'Results',
+  conclusion: 'Conclusion',
+  references: 'References',
+  figure_caption: 'Figures',
+  table: 'Tables',
+  body: 'Other text',
+};
+
+export function isChunkType(value: unknown): value is ChunkType {
+  return typeof value === 'string' && (CHUNK_TYPES as readonly string[]).includes(value);
+}
+
+export function detectChunkType(text: string): ChunkType {
+  const lowerText = text.toLowerCase();
+
+  if (lowerText.includes('abstract')) return 'abstract';
+  if (lowerText.includes('introduction')) return 'introduction';
+  if (lowerText.includes('methodology') || lowerText.includes('methods')) return 'methodology';
+  if (lowerText.includes('results')) return 'results';
+  if (lowerText.includes('conclusion')) return 'conclusion';
+  if (lowerText.includes('references') || lowerText.includes('bibliography')) return 'references';
+  if (lowerText.includes('figure') || lowerText.includes('fig.')) return 'figure_caption';
+  if (lowerText.includes('table')) return 'table';
+
+  return 'body';
+}
+
+/**
+ * Whether a chunk of the given type passes the include/exclude lists.
+ * Chunks without a recorded type count as 'body'.
+ */
+export function matchesSections(
+  chunkType: string | null | undefined,
+  includeSections?: ChunkType[],
+  excludeSections?: ChunkType[]
+): boolean {
+  const type = chunkType || 'body';
+
+  if (includeSections?.length && !includeSections.includes(type as ChunkType)) {
+    return false;
+  }
+
+  return !excludeSections?.includes(type as ChunkType);
+}
@@ -0,0 +1,140 @@
+import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { cosineSimilarity } from './vector_store';
+
+export interface SemanticChunkerConfig {
+  embeddings: EmbeddingsInterface;
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  breakpointPercentile?: number;
+  bufferSize?: number;
+}
+
+// Split after sentence punctuation followed by whitespace and an uppercase
+// letter, digit or bracket; also at blank lines. Abbreviations like "et al."
+// followed by a lowercase word stay together.
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+(?=[A-Z0-9(\[])|\n\s*\n/;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(SENTENCE_BOUNDARY)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Splits text where consecutive sentences drift apart in meaning. Each
+ * sentence is embedded together with `bufferSize` neighbours on either side;
+ * a gap whose cosine distance is above the `breakpointPercentile` of all gaps
+ * in the document is a breakpoint. Chunks are kept between `minChunkSize` and
+ * `maxChunkSize` characters: breakpoints inside a too-small chunk are ignored,
+ * and a chunk is cut early rather than grow past the maximum.
+ */
+export class SemanticChunker {
+  private embeddings: EmbeddingsInterface;
+  private minChunkSize: number;
+  private maxChunkSize: number;
+  private breakpointPercentile: number;
+  private bufferSize: number;
+  private fallback: RecursiveCharacterTextSplitter;
+
+  constructor(config: SemanticChunkerConfig) {
+    this.embeddings = config.embeddings;
+    this.minChunkSize = config.minChunkSize || 200;
+    this.maxChunkSize = config.maxChunkSize || 2000;
+    this.breakpointPercentile = config.breakpointPercentile || 95;
+    this.bufferSize = config.bufferSize ?? 1;
+
+    // Single sentences longer than the maximum (tables, run-on extraction) are
+    // cut by size instead
+    this.fallback = new RecursiveCharacterTextSplitter({
+      chunkSize: this.maxChunkSize,
+      chunkOverlap: 0,
+      separators: ['\n', '; ', ', ', ' ', ''],
+    });
+  }
+
+  async splitDocuments(documents: Document[]): Promise<Document[]> {
+    const chunks: Document[] = [];
+
+    for (const doc of documents) {
+      const texts = await this.splitText(doc.pageContent);
+      chunks.push(...texts.map(text => new Document({
+        pageContent: text,
+        metadata: { ...doc.metadata },
+      })));
+    }
+
+    return chunks;
+  }
+
+  async splitText(text: string): Promise<string[]> {
+    const sentences: string[] = [];
+    for (const sentence of splitSentences(text)) {
+      if (sentence.length > this.maxChunkSize) {
+        sentences.push(...await this.fallback.splitText(sentence));
+      } else {
+        sentences.push(sentence);
+      }
+    }
+
+    if (sentences.length <= 1 || text.length <= this.minChunkSize) {
+      return sentences.length > 0 ? [sentences.join(' ')] : [];
+    }
+
+    const distances = await this.sentenceDistances(sentences);
+    const threshold = percentile(distances, this.breakpointPercentile);
+
+    const chunks: string[] = [];
+    let current: string[] = [sentences[0]];
+    let currentLength = sentences[0].length;
+
+    for (let i = 1; i < sentences.length; i++) {
+      const nextLength = currentLength + 1 + sentences[i].length;
+      const isBreakpoint = distances[i - 1] >= threshold && currentLength >= this.minChunkSize;
+
+      if (isBreakpoint || nextLength > this.maxChunkSize) {
+        chunks.push(current.join(' '));
+        current = [sentences[i]];
+        currentLength = sentences[i].length;
+      } else {
+        current.push(sentences[i]);
+        currentLength = nextLength;
+      }
+    }
+
+    // A short tail reads better attached to the chunk before it
+    const tail = current.join(' ');
+    const previous = chunks[chunks.length - 1];
+    if (previous && tail.length < this.minChunkSize && previous.length + 1 + tail.length <= this.maxChunkSize) {
+      chunks[chunks.length - 1] = `${previous} ${tail}`;
+    } else {
+      chunks.push(tail);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Cosine distance between each sentence window and the next; entry i is
+   * the gap between sentence i and sentence i + 1.
+   */
+  private async sentenceDistances(sentences: string[]): Promise<number[]> {
+    const windows = sentences.map((_, index) =>
+      sentences
+        .slice(Math.max(0, index - this.bufferSize), index + this.bufferSize + 1)
+        .join(' ')
+    );
+
+    const vectors = await this.embeddings.embedDocuments(windows);
+
+    return vectors.slice(1).map((vector, index) => 1 - cosineSimilarity(vectors[index], vector));
+  }
+}
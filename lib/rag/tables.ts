@@ -0,0 +1,230 @@
+import type { LayoutLine } from './outline';
+import type { PageText } from './pages';
+
+export interface ExtractedTable {
+  pageNumber: number;
+  // "Table 2", from the caption
+  label: string | null;
+  caption: string | null;
+  columns: string[];
+  rows: string[][];
+  // The table's lines exactly as extracted, used to locate it in the page text
+  text: string;
+}
+
+// Stored in paper_tables
+export interface PaperTable {
+  id: string;
+  paper_id: string;
+  version_id: string | null;
+  position: number;
+  page_no: number;
+  label: string | null;
+  caption: string | null;
+  columns: string[];
+  rows: string[][];
+}
+
+// A gap this many times the font size separates two cells; word spacing is
+// about a quarter of it
+const CELL_GAP = 1;
+// Header plus at least two data rows
+const MIN_ROWS = 3;
+// Two-column body text also splits into two "cells" per line; table cells are short
+const MAX_WORDS_PER_CELL = 6;
+// Lines searched above and below a table for its caption
+const CAPTION_DISTANCE = 3;
+// Data rows per embedded chunk; every chunk repeats the caption and columns
+const ROWS_PER_CHUNK = 20;
+
+const CAPTION = /^\s*(?:Table|Tab\.)\s+([0-9]+|[IVXLC]+|[A-Z]\.?[0-9]+)\s*[.:|]?\s*/i;
+
+interface Cell {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Cells of a line: runs separated by a gap wider than `CELL_GAP` font sizes.
+ */
+function lineCells(line: LayoutLine): Cell[] {
+  const runs = (line.runs || []).filter(run => run.text.trim());
+  const gap = Math.max(line.fontSize, 1) * CELL_GAP;
+  const cells: Cell[] = [];
+
+  for (const run of [...runs].sort((a, b) => a.x - b.x)) {
+    const last = cells[cells.length - 1];
+    if (last && run.x - last.end < gap) {
+      // Runs split mid-word sit flush against each other
+      last.text += (run.x - last.end > gap / 8 ? ' ' : '') + run.text;
+      last.end = Math.max(last.end, run.x + run.width);
+    } else {
+      cells.push({ text: run.text, start: run.x, end: run.x + run.width });
+    }
+  }
+
+  return cells.map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() }));
+}
+
+function isTableBlock(rows: Cell[][]): boolean {
+  if (rows.length < MIN_ROWS) return false;
+  const cells = rows.flat();
+  const words = cells.reduce((sum, cell) => sum + cell.text.split(' ').length, 0);
+  return words / cells.length <= MAX_WORDS_PER_CELL;
+}
+
+/**
+ * Lays a block's cells out on the columns of its widest row. A cell goes to
+ * the column it overlaps most, or the nearest one; cells landing in the same
+ * column are joined.
+ */
+function alignColumns(rows: Cell[][]): string[][] {
+  const widest = rows.reduce((a, b) => (b.length > a.length ? b : a));
+
+  return rows.map(row => {
+    const aligned = widest.map(() => '');
+    for (const cell of row) {
+      let best = 0;
+      let bestScore = -Infinity;
+      widest.forEach((column, index) => {
+        const overlap = Math.min(cell.end, column.end) - Math.max(cell.start, column.start);
+        const distance = Math.abs((cell.start + cell.end) / 2 - (column.start + column.end) / 2);
+        const score = overlap > 0 ? overlap : -distance;
+        if (score > bestScore) {
+          bestScore = score;
+          best = index;
+        }
+      });
+      aligned[best] = aligned[best] ? `${aligned[best]} ${cell.text}` : cell.text;
+    }
+    return aligned;
+  });
+}
+
+function findCaption(
+  lines: LayoutLine[],
+  first: number,
+  last: number
+): { label: string; caption: string } | null {
+  const candidates = [
+    ...lines.slice(Math.max(0, first - CAPTION_DISTANCE), first).reverse(),
+    ...lines.slice(last + 1, last + 1 + CAPTION_DISTANCE),
+  ];
+
+  for (const line of candidates) {
+    const match = line.text.match(CAPTION);
+    if (match) {
+      return { label: `Table ${match[1]}`, caption: line.text.trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * Tables on a PDF's pages, detected from text layout: runs of at least
+ * `MIN_ROWS` consecutive lines that split into two or more cells. The first
+ * row is taken as the header. Captions ("Table 2: ...") are looked for just
+ * above the table, then just below it.
+ */
+export function extractTables(lines: LayoutLine[], pages: PageText[]): ExtractedTable[] {
+  const pageTexts = new Map(pages.map(page => [page.pageNumber, page.text]));
+  const tables: ExtractedTable[] = [];
+
+  const byPage = new Map<number, LayoutLine[]>();
+  for (const line of lines) {
+    byPage.set(line.pageNumber, [...(byPage.get(line.pageNumber) || []), line]);
+  }
+
+  for (const [pageNumber, pageLines] of byPage) {
+    const cells = pageLines.map(line => (CAPTION.test(line.text) ? [] : lineCells(line)));
+    let start = -1;
+
+    for (let index = 0; index <= pageLines.length; index++) {
+      if (index < pageLines.length && cells[index].length >= 2) {
+        if (start < 0) start = index;
+        continue;
+      }
+
+      if (start >= 0 && isTableBlock(cells.slice(start, index))) {
+        const [columns, ...rows] = alignColumns(cells.slice(start, index));
+        const first = pageLines[start];
+        const last = pageLines[index - 1];
+        const caption = findCaption(pageLines, start, index - 1);
+
+        tables.push({
+          pageNumber,
+          label: caption?.label ?? null,
+          caption: caption?.caption ?? null,
+          columns,
+          rows,
+          text: (pageTexts.get(pageNumber) || '').slice(first.offset, last.offset + last.text.length),
+        });
+      }
+      start = -1;
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Text embedded for retrieval: the caption, the columns and one line per row
+ * pairing each cell with its column, so a row still reads correctly on its
+ * own. Long tables are split into chunks that each repeat the caption and
+ * columns.
+ */
+export function renderTableChunks(table: Pick<ExtractedTable, 'label' | 'caption' | 'columns' | 'rows' | 'pageNumber'>): string[] {
+  const title = table.caption || table.label || 'Table';
+  const heading = `${title} (page ${table.pageNumber})\nColumns: ${table.columns.map((column, index) => column || `Column ${index + 1}`).join(' | ')}`;
+  const chunks: string[] = [];
+
+  for (let i = 0; i < Math.max(table.rows.length, 1); i += ROWS_PER_CHUNK) {
+    const rows = table.rows.slice(i, i + ROWS_PER_CHUNK).map((row, index) => {
+      const cells = row
+        .map((cell, column) => (cell ? `${table.columns[column] || `Column ${column + 1}`}: ${cell}` : null))
+        .filter(Boolean);
+      return `Row ${i + index + 1}: ${cells.join('; ')}`;
+    });
+    chunks.push([heading, ...rows].join('\n'));
+  }
+
+  return chunks;
+}
+
+/**
+ * Inserts a paper version's tables and returns their IDs in order.
+ */
+export async function storeTables(
+  supabase: any,
+  paperId: string,
+  tables: ExtractedTable[],
+  versionId: string | null = null
+): Promise<string[]> {
+  if (tables.length === 0) {
+    return [];
+  }
+
+  // IDs are generated here so table chunks can point at them
+  const ids = tables.map(() => crypto.randomUUID());
+
+  const { error } = await supabase
+    .from('paper_tables')
+    .insert(tables.map((table, index) => ({
+      id: ids[index],
+      paper_id: paperId,
+      version_id: versionId,
+      position: index,
+      page_no: table.pageNumber,
+      label: table.label,
+      caption: table.caption,
+      columns: table.columns,
+      rows: table.rows,
+    })));
+
+  if (error) {
+    throw new Error(`Failed to store tables: ${error.message}`);
+  }
+
+  return ids;
+}
@@ -1,9 +1,11 @@
 import { Chroma } from '@langchain/community/vectorstores/chroma';
-import { OpenAIEmbeddings } from '@langchain/openai';
 import { Document } from '@langchain/core/documents';
 import { SupabaseVectorStore } from '@langchain/community/vectorstores/supabase';
 import { createClient } from '@supabase/supabase-js';
 import { ChromaClient } from 'chromadb';
+import { ChunkType, matchesSections } from './sections';
+import { EmbeddingProvider, createEmbeddingProvider } from './embeddings';
+import { currentVersions } from './versions';
 
 export interface VectorStoreConfig {
   type: 'chroma' | 'supabase';
@@ -12,6 +14,8 @@ export interface VectorStoreConfig {
   supabaseKey?: string;
   openaiApiKey: string;
   collectionName?: string;
+  // Query embeddings must come from the provider that embedded the stored chunks
+  embeddings?: EmbeddingProvider;
 }
 
 export interface RetrievalOptions {
@@ -21,10 +25,48 @@ export interface RetrievalOptions {
   searchType?: 'similarity' | 'mmr' | 'hybrid';
   fetchK?: number;
   lambda?: number;
+  hybridAlpha?: number;
+  fusionMethod?: 'weighted' | 'rrf';
+  paperIds?: string[];
+  multiQueryCount?: number;
+  includeSections?: ChunkType[];
+  excludeSections?: ChunkType[];
 }
 
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function paperScopeFilter(paperIds: string[]): Record<string, any> {
+  return paperIds.length === 1 ? { paper_id: paperIds[0] } : { paper_ids: paperIds };
+}
+
+/**
+ * Translates section include/exclude lists into match_paper_chunks_optimized
+ * filter keys.
+ */
+export function sectionFilter(options: RetrievalOptions): Record<string, any> {
+  return {
+    ...(options.includeSections?.length ? { include_chunk_types: options.includeSections } : {}),
+    ...(options.excludeSections?.length ? { exclude_chunk_types: options.excludeSections } : {}),
+  };
+}
+
+// Standard RRF damping constant (Cormack et al.); keeps low ranks from dominating
+const RRF_K = 60;
+
 export class VectorStoreManager {
-  private embeddings: OpenAIEmbeddings;
+  private embeddings: EmbeddingProvider;
   private vectorStore: Chroma | SupabaseVectorStore | null = null;
   private config: VectorStoreConfig;
   private supabaseClient: any;
@@ -34,11 +76,7 @@ export class VectorStoreManager {
   constructor(config: VectorStoreConfig) {
     this.config = config;
 
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: config.openaiApiKey,
-      modelName: 'text-embedding-3-large',
-      dimensions: 3072,
-    });
+    this.embeddings = config.embeddings || createEmbeddingProvider('openai', config.openaiApiKey);
 
     if (config.type === 'supabase' && config.supabaseUrl && config.supabaseKey) {
       this.supabaseClient = createClient(config.supabaseUrl, config.supabaseKey);
@@ -116,158 +154,378 @@ export class VectorStoreManager {
       throw new Error('Supabase client not initialized');
     }
 
-    const { k = 20, filter } = options;
-    const paperId = filter?.paper_id;
-
-    // FOR DEBUGGING: Return ALL chunks for this paper instead of similarity search
-    console.log('DEBUG: Getting ALL chunks for paper:', paperId);
-
-    // First, let's see what papers exist in the database
-    const { data: allPapers, error: paperError } = await this.supabaseClient
-      .from('paper_chunks')
-      .select('paper_id')
-      .limit(10);
-
-    console.log('DEBUG: Available paper IDs in database:', allPapers?.map((p: any) => p.paper_id));
-    console.log('DEBUG: Paper query error:', paperError);
-    console.log('DEBUG: Using supabase URL:', this.supabaseClient.supabaseUrl);
+    const { k = 20, filter, scoreThreshold = 0 } = options;
 
-    // Also try getting the total count
-    const { count, error: countError } = await this.supabaseClient
-      .from('paper_chunks')
-      .select('*', { count: 'exact', head: true });
-
-    console.log('DEBUG: Total chunks in database:', count, 'count error:', countError);
+    const queryEmbedding = await this.embeddings.embedQuery(query);
 
-    const { data, error } = await this.supabaseClient
-      .from('paper_chunks')
-      .select('id, content, page_no, paper_id')
-      .eq('paper_id', paperId)
-      .limit(k);
+    const { data, error } = await this.supabaseClient.rpc('match_paper_chunks_optimized', {
+      query_embedding: queryEmbedding,
+      match_count: k,
+      filter: { ...filter, ...sectionFilter(options) },
+    });
 
     if (error) {
-      console.error('Error fetching chunks:', error);
+      console.error('Similarity search error:', error);
       throw new Error(`Database error: ${error.message}`);
     }
 
-    console.log('DEBUG: Found chunks:', data?.length || 0);
-
     if (!data || data.length === 0) {
-      console.log('DEBUG: No chunks found for paper ID:', paperId);
       return [];
     }
 
-    // Convert to Document format
-    const documents = data.map((chunk: any) => new Document({
-      pageContent: chunk.content,
-      metadata: {
-        id: chunk.id,
-        page_no: chunk.page_no,
-        paper_id: chunk.paper_id
-      }
-    }));
-
-    console.log('DEBUG: Returning documents:', documents.length);
-    return documents;
+    return data
+      .filter((chunk: any) => chunk.similarity >= scoreThreshold)
+      .map((chunk: any) => new Document({
+        pageContent: chunk.content,
+        metadata: {
+          id: chunk.id,
+          paper_id: chunk.paper_id,
+          parentId: chunk.parent_id ?? null,
+          versionId: chunk.version_id ?? null,
+          versionNumber: chunk.version_number ?? null,
+          pageNumber: chunk.page_no,
+          endPageNumber: chunk.end_page_no ?? chunk.page_no,
+          charStart: chunk.char_start ?? null,
+          charEnd: chunk.char_end ?? null,
+          pageSpans: chunk.page_spans ?? [],
+          tableId: chunk.table_id ?? null,
+          tableLabel: chunk.table_label ?? null,
+          chunkType: chunk.chunk_type,
+          score: chunk.similarity,
+          searchType: 'similarity',
+        },
+      }));
   }
 
+  /**
+   * Greedy maximal marginal relevance: fetches the `fetchK` nearest chunks with
+   * their embeddings, then repeatedly picks the chunk maximising
+   * lambda * sim(query, chunk) - (1 - lambda) * max sim(chunk, already picked).
+   * lambda = 1 is plain similarity ranking, lambda = 0 is maximum diversity.
+   */
   async maxMarginalRelevanceSearch(
     query: string,
     options: RetrievalOptions = {}
   ): Promise<Document[]> {
-    if (!this.vectorStore) {
-      throw new Error('Vector store not initialized');
-    }
+    const { k = 5, lambda = 0.5 } = options;
+    const fetchK = Math.max(options.fetchK ?? 20, k);
 
-    const { k = 5, filter, fetchK = 20 } = options;
+    const candidates = await this.similaritySearch(query, { ...options, k: fetchK });
+    if (candidates.length <= 1) {
+      return candidates.slice(0, k);
+    }
 
-    // Use similarity search as fallback if maxMarginalRelevanceSearch is not available
-    if (this.vectorStore.maxMarginalRelevanceSearch) {
-      try {
-        // @ts-expect-error - LangChain version compatibility issue
-        return await this.vectorStore.maxMarginalRelevanceSearch(query, k, fetchK);
-      } catch (error) {
-        console.warn('MMR search failed, falling back to similarity search:', error);
+    const embeddings = await this.fetchEmbeddings(candidates.map(doc => doc.metadata.id));
+    const selected: number[] = [];
+    const remaining = new Set(candidates.map((_, index) => index));
+
+    while (selected.length < k && remaining.size > 0) {
+      let bestIndex = -1;
+      let bestScore = -Infinity;
+
+      for (const index of remaining) {
+        const embedding = embeddings.get(candidates[index].metadata.id);
+        const redundancy = embedding
+          ? Math.max(0, ...selected.map(chosen => {
+              const chosenEmbedding = embeddings.get(candidates[chosen].metadata.id);
+              return chosenEmbedding ? cosineSimilarity(embedding, chosenEmbedding) : 0;
+            }))
+          : 0;
+        const mmrScore = lambda * candidates[index].metadata.score - (1 - lambda) * redundancy;
+
+        if (mmrScore > bestScore) {
+          bestScore = mmrScore;
+          bestIndex = index;
+        }
       }
+
+      selected.push(bestIndex);
+      remaining.delete(bestIndex);
     }
 
-    return await this.similaritySearch(query, { k, filter });
+    return selected.map(index => new Document({
+      pageContent: candidates[index].pageContent,
+      metadata: { ...candidates[index].metadata, searchType: 'mmr' },
+    }));
+  }
+
+  private async fetchEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+    const { data, error } = await this.supabaseClient
+      .from('paper_chunks')
+      .select('id, embedding')
+      .in('id', chunkIds);
+
+    if (error || !data) {
+      console.error('Embedding fetch error:', error);
+      return new Map();
+    }
+
+    // pgvector columns come back over PostgREST as '[0.1,0.2,...]' strings
+    return new Map(data
+      .filter((chunk: any) => chunk.embedding)
+      .map((chunk: any) => [
+        chunk.id,
+        typeof chunk.embedding === 'string' ? JSON.parse(chunk.embedding) : chunk.embedding,
+      ]));
   }
 
   async hybridSearch(
     query: string,
-    paperId: string,
+    paperId: string | string[],
     options: RetrievalOptions = {}
   ): Promise<Document[]> {
-    const { k = 5 } = options;
+    const paperIds = Array.isArray(paperId) ? paperId : [paperId];
+    const { k = 5, hybridAlpha = 0.5, fusionMethod = 'rrf' } = options;
+    const candidateCount = Math.max(options.fetchK || 0, k * 2);
 
     // Run searches in parallel
     const [semanticResults, keywordResults] = await Promise.all([
-      this.similaritySearch(query, { ...options, k, filter: { paper_id: paperId } }),
-      this.keywordSearch(query, paperId, { k: Math.ceil(k / 2) })
+      this.similaritySearch(query, { ...options, k: candidateCount, filter: paperScopeFilter(paperIds) }),
+      this.keywordSearch(query, paperIds, {
+        k: candidateCount,
+        includeSections: options.includeSections,
+        excludeSections: options.excludeSections,
+      })
     ]);
 
-    // Simple combine - take best from each
-    const seen = new Set<string>();
-    const combined: Document[] = [];
+    const fused = fusionMethod === 'weighted'
+      ? this.weightedFusion(semanticResults, keywordResults, hybridAlpha)
+      : this.reciprocalRankFusion(semanticResults, keywordResults, hybridAlpha);
 
-    // Add semantic results first
-    for (const doc of semanticResults) {
-      if (!seen.has(doc.pageContent) && combined.length < k) {
-        seen.add(doc.pageContent);
-        combined.push(doc);
-      }
-    }
+    return fused.slice(0, k);
+  }
 
-    // Fill remaining with keyword results
-    for (const doc of keywordResults) {
-      if (!seen.has(doc.pageContent) && combined.length < k) {
-        seen.add(doc.pageContent);
-        combined.push(doc);
-      }
-    }
+  /**
+   * Blends min-max normalised scores: alpha weights the vector score,
+   * (1 - alpha) the keyword score. A chunk missing from one list scores 0 there.
+   */
+  private weightedFusion(
+    semanticResults: Document[],
+    keywordResults: Document[],
+    alpha: number
+  ): Document[] {
+    const semanticScores = this.normalizeScores(semanticResults);
+    const keywordScores = this.normalizeScores(keywordResults);
+
+    return this.mergeRankings(semanticResults, keywordResults, (id) =>
+      alpha * (semanticScores.get(id) || 0) + (1 - alpha) * (keywordScores.get(id) || 0)
+    );
+  }
+
+  /**
+   * Weighted reciprocal rank fusion: each list contributes weight / (RRF_K + rank),
+   * so only rank positions matter and the two score scales never need to agree.
+   */
+  private reciprocalRankFusion(
+    semanticResults: Document[],
+    keywordResults: Document[],
+    alpha: number
+  ): Document[] {
+    const semanticRanks = this.rankMap(semanticResults);
+    const keywordRanks = this.rankMap(keywordResults);
+
+    return this.mergeRankings(semanticResults, keywordResults, (id) => {
+      const semanticRank = semanticRanks.get(id);
+      const keywordRank = keywordRanks.get(id);
+      return (semanticRank ? alpha / (RRF_K + semanticRank) : 0) +
+        (keywordRank ? (1 - alpha) / (RRF_K + keywordRank) : 0);
+    });
+  }
+
+  private mergeRankings(
+    semanticResults: Document[],
+    keywordResults: Document[],
+    scoreFn: (id: string) => number
+  ): Document[] {
+    const semanticById = new Map(semanticResults.map(doc => [doc.metadata.id, doc]));
+    const keywordById = new Map(keywordResults.map(doc => [doc.metadata.id, doc]));
+    const semanticRanks = this.rankMap(semanticResults);
+    const keywordRanks = this.rankMap(keywordResults);
+    const ids = new Set<string>([...semanticById.keys(), ...keywordById.keys()]);
+
+    const merged = [...ids].map(id => {
+      const semanticDoc = semanticById.get(id);
+      const keywordDoc = keywordById.get(id);
+      const base = (semanticDoc || keywordDoc)!;
+
+      return new Document({
+        pageContent: base.pageContent,
+        metadata: {
+          ...base.metadata,
+          score: scoreFn(id),
+          vectorScore: semanticDoc?.metadata.score ?? null,
+          keywordScore: keywordDoc?.metadata.score ?? null,
+          vectorRank: semanticRanks.get(id) ?? null,
+          keywordRank: keywordRanks.get(id) ?? null,
+          searchType: 'hybrid',
+        },
+      });
+    });
+
+    return merged.sort((a, b) => b.metadata.score - a.metadata.score);
+  }
+
+  private rankMap(documents: Document[]): Map<string, number> {
+    return new Map(documents.map((doc, index) => [doc.metadata.id, index + 1]));
+  }
+
+  private normalizeScores(documents: Document[]): Map<string, number> {
+    const scores = documents.map(doc => doc.metadata.score || 0);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
 
-    return combined;
+    return new Map(documents.map((doc, index) => [
+      doc.metadata.id,
+      range > 0 ? (scores[index] - min) / range : 1,
+    ]));
   }
 
   private async keywordSearch(
     query: string,
-    paperId: string,
-    options: { k: number }
+    paperIds: string[],
+    options: Pick<RetrievalOptions, 'includeSections' | 'excludeSections'> & { k: number }
   ): Promise<Document[]> {
     if (!this.supabaseClient) {
       return [];
     }
 
-    const searchTerms = query.toLowerCase().split(' ')
+    const searchTerms = query.toLowerCase().split(/\s+/)
+      .map(term => term.replace(/^[^\w]+|[^\w]+$/g, ''))
       .filter(term => term.length > 2);
 
+    if (searchTerms.length === 0) {
+      return [];
+    }
+
+    // Section filters are applied after the fetch, so leave room for dropped chunks
+    const hasSectionFilter = !!(options.includeSections?.length || options.excludeSections?.length);
+
+    // Older versions of a paper stay stored for their citations but are not searched
+    const versions = await currentVersions(this.supabaseClient, paperIds);
+    const versionNumbers = new Map([...versions.values()].map(version => [version.id, version.number]));
+    if (versionNumbers.size === 0) {
+      return [];
+    }
+
+    // websearch syntax tolerates punctuation in terms like "gpt-4" or "imagenet-1k"
     const { data, error } = await this.supabaseClient
       .from('paper_chunks')
-      .select('id, content, page_no')
-      .eq('paper_id', paperId)
-      .textSearch('content', searchTerms.join(' | '))
-      .limit(options.k);
+      .select('id, content, page_no, end_page_no, char_start, char_end, page_spans, paper_id, parent_id, version_id, table_id, paper_tables(label)')
+      .in('paper_id', paperIds)
+      .in('version_id', [...versionNumbers.keys()])
+      .textSearch('content', searchTerms.join(' or '), { type: 'websearch' })
+      .limit(hasSectionFilter ? options.k * 3 : options.k);
 
     if (error || !data) {
       console.error('Keyword search error:', error);
       return [];
     }
 
-    return data.map((chunk: any) =>
-      new Document({
-        pageContent: chunk.content,
-        metadata: {
-          id: chunk.id,
-          pageNumber: chunk.page_no,
-          searchType: 'keyword',
-        },
+    const chunkTypes = await this.fetchChunkTypes(data.map((chunk: any) => chunk.id));
+
+    // Full-text matches come back unordered; rank by fraction of query terms present
+    return data
+      .filter((chunk: any) =>
+        matchesSections(chunkTypes.get(chunk.id), options.includeSections, options.excludeSections)
+      )
+      .map((chunk: any) => {
+        const content = chunk.content.toLowerCase();
+        const matched = searchTerms.filter(term => content.includes(term)).length;
+
+        return new Document({
+          pageContent: chunk.content,
+          metadata: {
+            id: chunk.id,
+            paper_id: chunk.paper_id,
+            parentId: chunk.parent_id ?? null,
+            versionId: chunk.version_id,
+            versionNumber: versionNumbers.get(chunk.version_id) ?? null,
+            pageNumber: chunk.page_no,
+            endPageNumber: chunk.end_page_no ?? chunk.page_no,
+            charStart: chunk.char_start ?? null,
+            charEnd: chunk.char_end ?? null,
+            pageSpans: chunk.page_spans ?? [],
+            tableId: chunk.table_id ?? null,
+            tableLabel: chunk.paper_tables?.label ?? null,
+            chunkType: chunkTypes.get(chunk.id) || 'body',
+            score: matched / searchTerms.length,
+            searchType: 'keyword',
+          },
+        });
       })
-    );
+      .sort((a: Document, b: Document) => b.metadata.score - a.metadata.score)
+      .slice(0, options.k);
   }
 
-  // This function is now simplified and moved to hybridSearch method
-  // No longer needed as a separate method
+  private async fetchChunkTypes(chunkIds: string[]): Promise<Map<string, string>> {
+    if (chunkIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.supabaseClient
+      .from('paper_chunks_metadata')
+      .select('chunk_id, chunk_type')
+      .in('chunk_id', chunkIds);
+
+    if (error || !data) {
+      console.error('Chunk type lookup error:', error);
+      return new Map();
+    }
+
+    return new Map(data.map((row: any) => [row.chunk_id, row.chunk_type]));
+  }
+
+  /**
+   * Adds each chunk's parent span as `metadata.parentContent`. Chunks without
+   * a parent (ingested before parents existed) are returned unchanged.
+   */
+  async attachParentContent(documents: Document[]): Promise<Document[]> {
+    const parentIds = [...new Set(documents.map(doc => doc.metadata.parentId).filter(Boolean))];
+    if (!this.supabaseClient || parentIds.length === 0) {
+      return documents;
+    }
+
+    const { data, error } = await this.supabaseClient
+      .from('paper_chunk_parents')
+      .select('id, content')
+      .in('id', parentIds);
+
+    if (error || !data) {
+      console.error('Parent span lookup error:', error);
+      return documents;
+    }
+
+    const parents = new Map(data.map((parent: any) => [parent.id, parent.content]));
+
+    return documents.map(doc => new Document({
+      pageContent: doc.pageContent,
+      metadata: { ...doc.metadata, parentContent: parents.get(doc.metadata.parentId) },
+    }));
+  }
+
+  async attachPaperTitles(documents: Document[]): Promise<Document[]> {
+    const paperIds = [...new Set(documents.map(doc => doc.metadata.paper_id).filter(Boolean))];
+    if (!this.supabaseClient || paperIds.length === 0) {
+      return documents;
+    }
+
+    const { data, error } = await this.supabaseClient
+      .from('papers')
+      .select('id, title')
+      .in('id', paperIds);
+
+    if (error || !data) {
+      console.error('Paper title lookup error:', error);
+      return documents;
+    }
+
+    const titles = new Map(data.map((paper: any) => [paper.id, paper.title]));
+
+    return documents.map(doc => new Document({
+      pageContent: doc.pageContent,
+      metadata: { ...doc.metadata, paperTitle: titles.get(doc.metadata.paper_id) },
+    }));
+  }
 
   async deleteCollection(paperId: string): Promise<void> {
     if (this.config.type === 'chroma' && this.chromaClient) {
@@ -281,6 +539,16 @@ export class VectorStoreManager {
         .from('paper_chunks')
         .delete()
         .eq('paper_id', paperId);
+
+      await this.supabaseClient
+        .from('paper_chunk_parents')
+        .delete()
+        .eq('paper_id', paperId);
+
+      await this.supabaseClient
+        .from('paper_sections')
+        .delete()
+        .eq('paper_id', paperId);
     }
   }
 
@@ -0,0 +1,258 @@
+import { normalizeChunkText } from './embedding_cache';
+import { estimateSimilarity, minhashSignature } from './fingerprint';
+
+export interface PaperVersion {
+  id: string;
+  paper_id: string;
+  version_number: number;
+  storage_path: string | null;
+  file_hash: string | null;
+  page_count: number | null;
+  processing_status: 'pending' | 'processing' | 'completed' | 'failed' | null;
+  processing_error: string | null;
+  created_at: string;
+}
+
+export type SectionChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SectionChange {
+  section: string;
+  status: SectionChangeStatus;
+  // Estimated share of text the two versions of the section have in common
+  similarity: number;
+}
+
+// Chunk IDs per metadata lookup; keeps the PostgREST query string short
+const LOOKUP_BATCH_SIZE = 100;
+// PostgREST returns at most this many rows per request
+const ROW_PAGE_SIZE = 1000;
+// Chunk boundaries move when text elsewhere changes, so a section whose
+// text is untouched can still differ by a few shingles at chunk joins
+const UNCHANGED_SIMILARITY = 0.95;
+// Label for text before the first detected heading, or papers without an outline
+const NO_SECTION = 'Untitled section';
+
+function httpError(message: string, status: number): Error {
+  const error = new Error(message) as any;
+  error.status = status;
+  return error;
+}
+
+export async function listPaperVersions(supabase: any, paperId: string): Promise<PaperVersion[]> {
+  const { data, error } = await supabase
+    .from('paper_versions')
+    .select('*')
+    .eq('paper_id', paperId)
+    .order('version_number', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load paper versions: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Records `storagePath` as the paper's next version. The paper keeps its
+ * current version until the new one has been ingested.
+ */
+export async function createPaperVersion(
+  supabase: any,
+  paperId: string,
+  storagePath: string | null
+): Promise<PaperVersion> {
+  const versions = await listPaperVersions(supabase, paperId);
+  const versionNumber = (versions[versions.length - 1]?.version_number ?? 0) + 1;
+
+  const { data, error } = await supabase
+    .from('paper_versions')
+    .insert({ paper_id: paperId, version_number: versionNumber, storage_path: storagePath })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw httpError('Another version of this paper is being added', 409);
+    }
+    throw new Error(`Failed to create paper version: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * The version ingestion writes to: `versionId` when given, otherwise the
+ * paper's current version. A paper that has none yet (a fresh upload) gets
+ * version 1 from its stored file.
+ */
+export async function resolvePaperVersion(
+  supabase: any,
+  paperId: string,
+  versionId?: string | null
+): Promise<PaperVersion> {
+  if (!versionId) {
+    const { data: paper, error } = await supabase
+      .from('papers')
+      .select('current_version_id, storage_path')
+      .eq('id', paperId)
+      .single();
+
+    if (error || !paper) {
+      throw new Error('Paper not found');
+    }
+
+    if (!paper.current_version_id) {
+      // Nothing to keep searchable yet, so version 1 is current right away
+      // and a retry ingests into it again
+      const first = await createPaperVersion(supabase, paperId, paper.storage_path);
+      await supabase.from('papers').update({ current_version_id: first.id }).eq('id', paperId);
+      return first;
+    }
+    versionId = paper.current_version_id;
+  }
+
+  const { data: version, error } = await supabase
+    .from('paper_versions')
+    .select('*')
+    .eq('id', versionId)
+    .eq('paper_id', paperId)
+    .single();
+
+  if (error || !version) {
+    throw new Error('Paper version not found');
+  }
+
+  return version;
+}
+
+/**
+ * Current version ID and number of each paper, for scoping retrieval to it.
+ */
+export async function currentVersions(
+  supabase: any,
+  paperIds: string[]
+): Promise<Map<string, { id: string; number: number }>> {
+  const { data: papers } = await supabase
+    .from('papers')
+    .select('id, current_version_id')
+    .in('id', paperIds);
+
+  const versionIds = (papers || []).map((paper: any) => paper.current_version_id).filter(Boolean);
+  if (versionIds.length === 0) {
+    return new Map();
+  }
+
+  const { data: versions } = await supabase
+    .from('paper_versions')
+    .select('id, paper_id, version_number')
+    .in('id', versionIds);
+
+  return new Map((versions || []).map((version: any) => [
+    version.paper_id,
+    { id: version.id, number: version.version_number },
+  ]));
+}
+
+// Section numbers often shift between versions; match sections on their titles
+function sectionKey(path: string[] | null): string {
+  return path?.length
+    ? path.map(label => label.replace(/^(?:\d+|[A-Z](?=\.\d))(?:\.\d+)*\.?\s+/, '').toLowerCase()).join(' > ')
+    : '';
+}
+
+/**
+ * Text of every section of a version, in reading order, keyed by its title
+ * path without section numbers.
+ */
+async function sectionTexts(
+  supabase: any,
+  versionId: string
+): Promise<Map<string, { section: string; text: string }>> {
+  const chunks: Array<{ id: string; content: string }> = [];
+  for (let from = 0; ; from += ROW_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('paper_chunks')
+      .select('id, content')
+      .eq('version_id', versionId)
+      .order('id')
+      .range(from, from + ROW_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load chunks: ${error.message}`);
+    }
+    chunks.push(...(data || []));
+    if (!data || data.length < ROW_PAGE_SIZE) break;
+  }
+
+  const metadata = new Map<string, { chunk_index: number; section_path: string[] | null }>();
+  for (let i = 0; i < chunks.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('paper_chunks_metadata')
+      .select('chunk_id, chunk_index, section_path')
+      .in('chunk_id', chunks.slice(i, i + LOOKUP_BATCH_SIZE).map(chunk => chunk.id));
+
+    if (error) {
+      throw new Error(`Failed to load chunk metadata: ${error.message}`);
+    }
+    for (const row of data || []) {
+      metadata.set(row.chunk_id, row);
+    }
+  }
+
+  const ordered = [...chunks].sort((a, b) =>
+    (metadata.get(a.id)?.chunk_index ?? 0) - (metadata.get(b.id)?.chunk_index ?? 0)
+  );
+
+  const sections = new Map<string, { section: string; text: string }>();
+  for (const chunk of ordered) {
+    const path = metadata.get(chunk.id)?.section_path ?? null;
+    const key = sectionKey(path);
+    const entry = sections.get(key) || { section: path?.join(' > ') || NO_SECTION, text: '' };
+    entry.text += ` ${chunk.content}`;
+    sections.set(key, entry);
+  }
+
+  return sections;
+}
+
+/**
+ * Which sections were added, removed or changed from one version to the
+ * next. Sections are listed in the order of the newer version, removed ones
+ * last.
+ */
+export async function diffPaperVersions(
+  supabase: any,
+  fromVersionId: string,
+  toVersionId: string
+): Promise<SectionChange[]> {
+  const [before, after] = await Promise.all([
+    sectionTexts(supabase, fromVersionId),
+    sectionTexts(supabase, toVersionId),
+  ]);
+
+  const changes: SectionChange[] = [];
+
+  for (const [key, { section, text }] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      changes.push({ section, status: 'added', similarity: 0 });
+    } else {
+      const similarity = normalizeChunkText(previous.text) === normalizeChunkText(text)
+        ? 1
+        : estimateSimilarity(minhashSignature(previous.text), minhashSignature(text));
+      changes.push({
+        section,
+        status: similarity >= UNCHANGED_SIMILARITY ? 'unchanged' : 'changed',
+        similarity,
+      });
+    }
+  }
+
+  for (const [key, { section }] of before) {
+    if (!after.has(key)) {
+      changes.push({ section, status: 'removed', similarity: 0 });
+    }
+  }
+
+  return changes;
+}
@@ -1,5 +1,6 @@
 import pdf from 'pdf-parse'
 import { createRequestLogger } from '@/lib/logger'
+import type { LayoutLine } from '@/lib/rag/outline'
 
 const logger = createRequestLogger('PDFService')
 
@@ -13,22 +14,15 @@ export interface PDFMetadata {
   modificationDate?: Date
   producer?: string
   textContent: string
-  chunks: PDFChunk[]
 }
 
-export interface PDFChunk {
+export interface PDFPageLayout {
   pageNumber: number
-  content: string
-  startIndex: number
-  endIndex: number
+  text: string
+  lines: LayoutLine[]
 }
 
 export class PDFService {
-  private static readonly CHUNK_SIZE = 500
-  private static readonly CHUNK_OVERLAP = 50
-  private static readonly MAX_CHUNK_SIZE = 1000
-  private static readonly MIN_CHUNK_SIZE = 100
-
   static async extractMetadata(buffer: Buffer): Promise<PDFMetadata> {
     try {
       logger.info('Extracting PDF metadata')
@@ -47,16 +41,11 @@ export class PDFService {
         creationDate: data.info?.CreationDate,
         modificationDate: data.info?.ModDate,
         producer: data.info?.Producer,
-        textContent: data.text,
-        chunks: []
+        textContent: data.text
       }
 
-      // Generate chunks
-      metadata.chunks = this.createChunks(data.text, data.numpages)
-
       logger.info({
-        pageCount: metadata.pageCount,
-        chunksCreated: metadata.chunks.length
+        pageCount: metadata.pageCount
       }, 'PDF metadata extracted successfully')
 
       return metadata
@@ -66,50 +55,76 @@ export class PDFService {
     }
   }
 
-  private static createChunks(text: string, pageCount: number): PDFChunk[] {
-    const chunks: PDFChunk[] = []
-    const lines = text.split('\n')
-    let currentChunk = ''
-    let currentPage = 1
-    let charCount = 0
-    let chunkStartIndex = 0
-
-    for (const line of lines) {
-      // Estimate page number based on position in text
-      const estimatedPage = Math.ceil((charCount / text.length) * pageCount) || 1
-
-      if (currentChunk.length + line.length > this.CHUNK_SIZE && currentChunk.length >= this.MIN_CHUNK_SIZE) {
-        // Save current chunk
-        chunks.push({
-          pageNumber: currentPage,
-          content: currentChunk.trim(),
-          startIndex: chunkStartIndex,
-          endIndex: charCount
+  /**
+   * Extracts every page's text together with per-line font information.
+   * Page text is built the same way as pdf-parse's default renderer (items on
+   * one baseline concatenated, baselines joined by newlines), so offsets into
+   * it line up with text extracted elsewhere.
+   */
+  static async extractLayout(buffer: Buffer): Promise<PDFPageLayout[]> {
+    const pages: PDFPageLayout[] = []
+
+    await pdf(buffer, {
+      max: 0,
+      version: 'v2.0.550',
+      pagerender: async (pageData: any) => {
+        const textContent = await pageData.getTextContent({
+          normalizeWhitespace: false,
+          disableCombineTextItems: false
         })
-
-        // Start new chunk with overlap
-        const overlapText = currentChunk.slice(-this.CHUNK_OVERLAP)
-        currentChunk = overlapText + line + '\n'
-        chunkStartIndex = charCount - this.CHUNK_OVERLAP
-        currentPage = estimatedPage
-      } else {
-        currentChunk += line + '\n'
+        const pageNumber = pageData.pageIndex + 1
+        const lines: LayoutLine[] = []
+        let text = ''
+        let lastY: number | undefined
+        let current: {
+          offset: number
+          parts: Array<{ str: string; fontSize: number; fontName: string; x: number; width: number }>
+        } | null = null
+
+        const flush = () => {
+          if (!current) return
+          const lineText = current.parts.map(part => part.str).join('')
+          // The run with the most characters decides the line's style
+          const dominant = current.parts.reduce((a, b) => (b.str.length > a.str.length ? b : a))
+          if (lineText.trim()) {
+            lines.push({
+              text: lineText,
+              pageNumber,
+              offset: current.offset,
+              fontSize: dominant.fontSize,
+              fontName: dominant.fontName,
+              runs: current.parts.map(part => ({ text: part.str, x: part.x, width: part.width }))
+            })
+          }
+          current = null
+        }
+
+        for (const item of textContent.items) {
+          if (lastY !== undefined && lastY !== item.transform[5]) {
+            flush()
+            text += '\n'
+          }
+          if (!current) {
+            current = { offset: text.length, parts: [] }
+          }
+          current.parts.push({
+            str: item.str,
+            fontSize: Math.round(Math.hypot(item.transform[2], item.transform[3]) * 10) / 10,
+            fontName: item.fontName,
+            x: item.transform[4],
+            width: item.width || 0
+          })
+          text += item.str
+          lastY = item.transform[5]
+        }
+        flush()
+
+        pages.push({ pageNumber, text, lines })
+        return text
       }
+    })
 
-      charCount += line.length + 1
-    }
-
-    // Add the last chunk
-    if (currentChunk.trim()) {
-      chunks.push({
-        pageNumber: currentPage,
-        content: currentChunk.trim(),
-        startIndex: chunkStartIndex,
-        endIndex: charCount
-      })
-    }
-
-    return chunks
+    return pages.sort((a, b) => a.pageNumber - b.pageNumber)
   }
 
   static validatePDF(buffer: Buffer): boolean {
@@ -2,6 +2,7 @@ import { createAdminClient } from '@/lib/supabase/admin'
 import { createRequestLogger } from '@/lib/logger'
 import { nanoid } from 'nanoid'
 import sharp from 'sharp'
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_LIST } from '@/lib/rag/document_types'
 
 const logger = createRequestLogger('StorageService')
 
@@ -13,15 +14,17 @@ export interface StorageOptions {
 }
 
 export class StorageService {
-  private static readonly ALLOWED_MIME_TYPES = {
-    'application/pdf': '.pdf',
+  private static readonly ALLOWED_MIME_TYPES: Record<string, string> = {
+    ...Object.fromEntries(DOCUMENT_TYPE_LIST.flatMap(type =>
+      DOCUMENT_TYPES[type].mimeTypes.map(mimeType => [mimeType, DOCUMENT_TYPES[type].extensions[0]])
+    )),
     'image/jpeg': '.jpg',
     'image/png': '.png',
     'image/webp': '.webp',
   }
 
   private static readonly MAX_FILE_SIZE = {
-    pdf: 50 * 1024 * 1024, // 50MB
+    document: 50 * 1024 * 1024, // 50MB
     image: 10 * 1024 * 1024, // 10MB
   }
 
@@ -138,26 +141,32 @@ export class StorageService {
     }
   }
 
+  // Takes the uploaded Blob as well, so its size can be checked before it is read
   static validateFile(
-    buffer: Buffer,
+    file: Buffer | Blob,
     mimeType: string,
     maxSize?: number
   ): void {
-    if (!this.ALLOWED_MIME_TYPES[mimeType as keyof typeof this.ALLOWED_MIME_TYPES]) {
-      throw new Error(`File type ${mimeType} is not allowed`)
+    if (!this.ALLOWED_MIME_TYPES[mimeType]) {
+      const error = new Error(`File type ${mimeType} is not allowed`) as any
+      error.status = 400
+      throw error
     }
 
-    const fileType = mimeType.startsWith('image/') ? 'image' : 'pdf'
+    const fileType = mimeType.startsWith('image/') ? 'image' : 'document'
     const sizeLimit = maxSize || this.MAX_FILE_SIZE[fileType as keyof typeof this.MAX_FILE_SIZE]
+    const size = Buffer.isBuffer(file) ? file.length : file.size
 
-    if (buffer.length > sizeLimit) {
-      throw new Error(`File size exceeds ${sizeLimit / (1024 * 1024)}MB limit`)
+    if (size > sizeLimit) {
+      const error = new Error(`File size exceeds ${sizeLimit / (1024 * 1024)}MB limit`) as any
+      error.status = 413
+      throw error
     }
   }
 
   private static generateFileName(mimeType?: string): string {
     const extension = mimeType
-      ? this.ALLOWED_MIME_TYPES[mimeType as keyof typeof this.ALLOWED_MIME_TYPES] || ''
+      ? this.ALLOWED_MIME_TYPES[mimeType] || ''
       : ''
     const timestamp = Date.now()
     const uniqueId = nanoid(10)
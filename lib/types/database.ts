@@ -68,6 +68,9 @@ export interface Database {
           is_next_read: boolean
           processing_status: 'pending' | 'processing' | 'completed' | 'failed'
           processing_error: string | null
+          file_hash: string | null
+          text_minhash: number[] | null
+          current_version_id: string | null
           created_at: string
           updated_at: string
         }
@@ -81,6 +84,9 @@ export interface Database {
           is_next_read?: boolean
           processing_status?: 'pending' | 'processing' | 'completed' | 'failed'
           processing_error?: string | null
+          file_hash?: string | null
+          text_minhash?: number[] | null
+          current_version_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -94,6 +100,9 @@ export interface Database {
           is_next_read?: boolean
           processing_status?: 'pending' | 'processing' | 'completed' | 'failed'
           processing_error?: string | null
+          file_hash?: string | null
+          text_minhash?: number[] | null
+          current_version_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -103,25 +112,253 @@ export interface Database {
         Row: {
           id: string
           paper_id: string
+          version_id: string | null
+          parent_id: string | null
+          table_id: string | null
           page_no: number
+          end_page_no: number | null
+          char_start: number | null
+          char_end: number | null
+          page_spans: Json | null
           content: string
           embedding: number[] | null
+          embedding_model: string | null
+          embedding_dimensions: number | null
+          staged_embedding: number[] | null
+          staged_embedding_model: string | null
           created_at: string
         }
         Insert: {
           id?: string
           paper_id: string
+          version_id?: string | null
+          parent_id?: string | null
+          table_id?: string | null
           page_no: number
+          end_page_no?: number | null
+          char_start?: number | null
+          char_end?: number | null
+          page_spans?: Json | null
           content: string
           embedding?: number[] | null
+          embedding_model?: string | null
+          embedding_dimensions?: number | null
+          staged_embedding?: number[] | null
+          staged_embedding_model?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           paper_id?: string
+          version_id?: string | null
+          parent_id?: string | null
+          table_id?: string | null
           page_no?: number
+          end_page_no?: number | null
+          char_start?: number | null
+          char_end?: number | null
+          page_spans?: Json | null
           content?: string
           embedding?: number[] | null
+          embedding_model?: string | null
+          embedding_dimensions?: number | null
+          staged_embedding?: number[] | null
+          staged_embedding_model?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      paper_tables: {
+        Row: {
+          id: string
+          paper_id: string
+          version_id: string | null
+          position: number
+          page_no: number
+          label: string | null
+          caption: string | null
+          columns: Json
+          rows: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          version_id?: string | null
+          position: number
+          page_no: number
+          label?: string | null
+          caption?: string | null
+          columns?: Json
+          rows?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          version_id?: string | null
+          position?: number
+          page_no?: number
+          label?: string | null
+          caption?: string | null
+          columns?: Json
+          rows?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      paper_sections: {
+        Row: {
+          id: string
+          paper_id: string
+          version_id: string | null
+          parent_section_id: string | null
+          position: number
+          level: number
+          number: string | null
+          title: string
+          page_no: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          version_id?: string | null
+          parent_section_id?: string | null
+          position: number
+          level: number
+          number?: string | null
+          title: string
+          page_no?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          version_id?: string | null
+          parent_section_id?: string | null
+          position?: number
+          level?: number
+          number?: string | null
+          title?: string
+          page_no?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      paper_versions: {
+        Row: {
+          id: string
+          paper_id: string
+          version_number: number
+          storage_path: string | null
+          file_hash: string | null
+          page_count: number | null
+          processing_status: 'pending' | 'processing' | 'completed' | 'failed' | null
+          processing_error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          version_number: number
+          storage_path?: string | null
+          file_hash?: string | null
+          page_count?: number | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
+          processing_error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          version_number?: number
+          storage_path?: string | null
+          file_hash?: string | null
+          page_count?: number | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
+          processing_error?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      document_processing_status: {
+        Row: {
+          id: string
+          paper_id: string
+          status: 'pending' | 'processing' | 'completed' | 'failed'
+          stage: string | null
+          processed_chunks: number | null
+          total_chunks: number | null
+          eta_seconds: number | null
+          embedding_cache_hits: number | null
+          embedding_cache_misses: number | null
+          error_message: string | null
+          processing_started_at: string | null
+          processing_completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          status: 'pending' | 'processing' | 'completed' | 'failed'
+          stage?: string | null
+          processed_chunks?: number | null
+          total_chunks?: number | null
+          eta_seconds?: number | null
+          embedding_cache_hits?: number | null
+          embedding_cache_misses?: number | null
+          error_message?: string | null
+          processing_started_at?: string | null
+          processing_completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          status?: 'pending' | 'processing' | 'completed' | 'failed'
+          stage?: string | null
+          processed_chunks?: number | null
+          total_chunks?: number | null
+          eta_seconds?: number | null
+          embedding_cache_hits?: number | null
+          embedding_cache_misses?: number | null
+          error_message?: string | null
+          processing_started_at?: string | null
+          processing_completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      paper_chunk_parents: {
+        Row: {
+          id: string
+          paper_id: string
+          version_id: string | null
+          parent_index: number
+          page_no: number | null
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          version_id?: string | null
+          parent_index: number
+          page_no?: number | null
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          version_id?: string | null
+          parent_index?: number
+          page_no?: number | null
+          content?: string
           created_at?: string
         }
         Relationships: []
@@ -153,6 +390,42 @@ export interface Database {
         }
         Relationships: []
       }
+      chat_session_papers: {
+        Row: {
+          id: string
+          session_id: string
+          paper_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          paper_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          paper_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'chat_session_papers_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'chat_sessions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'chat_session_papers_paper_id_fkey'
+            columns: ['paper_id']
+            isOneToOne: false
+            referencedRelation: 'papers'
+            referencedColumns: ['id']
+          }
+        ]
+      }
       chat_messages: {
         Row: {
           id: string
@@ -187,6 +460,7 @@ export interface Database {
           chunk_id: string
           score: number
           page_no: number
+          end_page_no: number | null
           created_at: string
         }
         Insert: {
@@ -195,6 +469,7 @@ export interface Database {
           chunk_id: string
           score: number
           page_no: number
+          end_page_no?: number | null
           created_at?: string
         }
         Update: {
@@ -203,6 +478,7 @@ export interface Database {
           chunk_id?: string
           score?: number
           page_no?: number
+          end_page_no?: number | null
           created_at?: string
         }
         Relationships: []
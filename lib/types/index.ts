@@ -23,8 +23,12 @@ export const ChatMessageSchema = z.object({
 })
 
 export const CreateSessionSchema = z.object({
-  paperId: z.string().uuid(),
+  paperId: z.string().uuid().optional(),
+  paperIds: z.array(z.string().uuid()).min(1).optional(),
   title: z.string().min(1),
+}).refine(data => data.paperId || data.paperIds, {
+  message: 'paperId or paperIds is required',
+  path: ['paperIds'],
 })
 
 export type SignUpInput = z.infer<typeof SignUpSchema>
@@ -67,6 +71,7 @@ export interface ChatSession {
   id: string
   userId: string
   paperId: string
+  paperIds?: string[]
   title: string
   createdAt: string
   updatedAt: string
@@ -2,6 +2,7 @@ import { createServerClientSSR } from '@/lib/supabase/server'
 import { createClient } from '@supabase/supabase-js'
 import { User } from '@supabase/supabase-js'
 import { headers } from 'next/headers'
+import { timingSafeEqual } from 'crypto'
 
 export async function getCurrentUser(): Promise<User | null> {
   const supabase = await createServerClientSSR()
@@ -56,4 +57,26 @@ export async function requireAuth(): Promise<User> {
   }
 
   return user
-}
\ No newline at end of file
+}
+
+// Operator endpoints take the ADMIN_API_KEY secret in the x-admin-key header
+// and are disabled when it is not set
+export async function requireAdmin(): Promise<void> {
+  const adminKey = process.env.ADMIN_API_KEY
+
+  if (!adminKey) {
+    const error = new Error('Admin API is disabled') as any
+    error.status = 403
+    throw error
+  }
+
+  const headersList = await headers()
+  const provided = Buffer.from(headersList.get('x-admin-key') || '')
+  const expected = Buffer.from(adminKey)
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    const error = new Error('Unauthorized') as any
+    error.status = 401
+    throw error
+  }
+}
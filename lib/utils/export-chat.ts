@@ -8,6 +8,7 @@ interface ExportMessage {
   metadata?: {
     citations?: Array<{
       page_no: number;
+      end_page_no?: number | null;
       score: number;
     }>;
   };
@@ -47,11 +48,15 @@ function formatDate(dateString: string): string {
 /**
  * Formats citations for display
  */
-function formatCitations(citations?: Array<{ page_no: number; score: number }>): string {
+function formatCitations(citations?: Array<{ page_no: number; end_page_no?: number | null; score: number }>): string {
   if (!citations || citations.length === 0) return '';
 
-  const pages = [...new Set(citations.map(c => c.page_no))].sort((a, b) => a - b);
-  return `[Citations: Pages ${pages.join(', ')}]`;
+  const ranges = [...new Set(
+    [...citations]
+      .sort((a, b) => a.page_no - b.page_no)
+      .map(c => c.end_page_no && c.end_page_no > c.page_no ? `${c.page_no}-${c.end_page_no}` : `${c.page_no}`)
+  )];
+  return `[Citations: Pages ${ranges.join(', ')}]`;
 }
 
 /**
@@ -0,0 +1,88 @@
+import type { PaperComparison, ComparisonCell } from '@/lib/rag/rag_chain';
+
+/**
+ * Turns a dimension key into a column heading
+ */
+function formatDimension(dimension: string): string {
+  return dimension.charAt(0).toUpperCase() + dimension.slice(1);
+}
+
+/**
+ * Formats a cell's citations as a compact page list
+ */
+function formatCellCitations(cell: ComparisonCell): string {
+  const pages = [...new Set(
+    cell.citations
+      .map(citation => citation.pageNumber)
+      .filter((page): page is number => typeof page === 'number')
+  )].sort((a, b) => a - b);
+
+  if (pages.length === 0) return '';
+  return `p. ${pages.join(', ')}`;
+}
+
+/**
+ * Escapes a value for use inside a Markdown table cell
+ */
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Escapes a value for use as a CSV field
+ */
+export function escapeCSVField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Renders a paper comparison as a Markdown table, one row per paper
+ */
+export function comparisonToMarkdown(comparison: PaperComparison): string {
+  const header = ['Paper', ...comparison.dimensions.map(formatDimension)];
+
+  const rows = comparison.papers.map(paper => [
+    paper.paperTitle || paper.paperId,
+    ...comparison.dimensions.map(dimension => {
+      const cell = paper.cells[dimension];
+      const citations = formatCellCitations(cell);
+      return citations ? `${cell.value} (${citations})` : cell.value;
+    }),
+  ]);
+
+  return [
+    `| ${header.map(escapeMarkdownCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Renders a paper comparison as CSV, with a citation column after each dimension
+ */
+export function comparisonToCSV(comparison: PaperComparison): string {
+  const header = [
+    'Paper ID',
+    'Paper',
+    ...comparison.dimensions.flatMap(dimension => [
+      formatDimension(dimension),
+      `${formatDimension(dimension)} Citations`,
+    ]),
+  ];
+
+  const rows = comparison.papers.map(paper => [
+    paper.paperId,
+    paper.paperTitle || '',
+    ...comparison.dimensions.flatMap(dimension => {
+      const cell = paper.cells[dimension];
+      return [cell.value, formatCellCitations(cell)];
+    }),
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(escapeCSVField).join(','))
+    .join('\n') + '\n';
+}
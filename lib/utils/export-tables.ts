@@ -0,0 +1,26 @@
+import type { PaperTable } from '@/lib/rag/tables';
+import { escapeCSVField } from './export-comparison';
+
+type ExportTable = Pick<PaperTable, 'label' | 'caption' | 'page_no' | 'columns' | 'rows'>;
+
+/**
+ * Renders a table as CSV, header row first
+ */
+export function tableToCSV(table: Pick<PaperTable, 'columns' | 'rows'>): string {
+  return [table.columns, ...table.rows]
+    .map(row => row.map(escapeCSVField).join(','))
+    .join('\n') + '\n';
+}
+
+/**
+ * Renders several tables into one CSV, each introduced by a line with its
+ * caption and page and separated by a blank line
+ */
+export function tablesToCSV(tables: ExportTable[]): string {
+  return tables
+    .map(table => {
+      const title = `${table.caption || table.label || 'Table'} (p. ${table.page_no})`;
+      return `${escapeCSVField(title)}\n${tableToCSV(table)}`;
+    })
+    .join('\n');
+}
@@ -1,6 +1,7 @@
 import { z } from 'zod'
 import { NextRequest } from 'next/server'
 import { createRequestLogger } from '@/lib/logger'
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_LIST } from '@/lib/rag/document_types'
 
 const logger = createRequestLogger('Validation')
 
@@ -105,7 +106,10 @@ export function validateFileName(fileName: string): boolean {
   }
 
   // Check file extension
-  const allowedExtensions = ['.pdf', '.jpg', '.jpeg', '.png', '.webp']
+  const allowedExtensions = [
+    ...DOCUMENT_TYPE_LIST.flatMap(type => DOCUMENT_TYPES[type].extensions),
+    '.jpg', '.jpeg', '.png', '.webp',
+  ]
   const hasValidExtension = allowedExtensions.some(ext => fileName.toLowerCase().endsWith(ext))
 
   return hasValidExtension
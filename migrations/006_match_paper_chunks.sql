@@ -0,0 +1,30 @@
+-- Cosine-similarity search over paper_chunks used by VectorStoreManager.similaritySearch
+-- Follows the LangChain Supabase contract: (query_embedding, match_count, filter)
+-- Supported filter keys: paper_id
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  page_no INT,
+  content TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.page_no,
+    pc.content,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  WHERE pc.embedding IS NOT NULL
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
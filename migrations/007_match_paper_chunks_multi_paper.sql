@@ -0,0 +1,33 @@
+-- Allow match_paper_chunks_optimized to search across several papers at once
+-- Supported filter keys: paper_id (single UUID), paper_ids (JSON array of UUIDs)
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  page_no INT,
+  content TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.page_no,
+    pc.content,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  WHERE pc.embedding IS NOT NULL
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+    AND (
+      filter->'paper_ids' IS NULL
+      OR pc.paper_id IN (SELECT jsonb_array_elements_text(filter->'paper_ids')::UUID)
+    )
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
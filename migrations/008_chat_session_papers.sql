@@ -0,0 +1,65 @@
+-- Papers attached to a chat session; a session may span several papers
+-- chat_sessions.paper_id is kept as the session's primary paper for older clients
+CREATE TABLE IF NOT EXISTS chat_session_papers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Prevent attaching the same paper twice
+ALTER TABLE chat_session_papers
+ADD CONSTRAINT chat_session_papers_session_paper_unique UNIQUE (session_id, paper_id);
+
+-- Useful indexes
+CREATE INDEX IF NOT EXISTS idx_chat_session_papers_session_id ON chat_session_papers(session_id);
+CREATE INDEX IF NOT EXISTS idx_chat_session_papers_paper_id ON chat_session_papers(paper_id);
+
+-- Backfill existing single-paper sessions
+INSERT INTO chat_session_papers (session_id, paper_id)
+SELECT id, paper_id FROM chat_sessions WHERE paper_id IS NOT NULL
+ON CONFLICT (session_id, paper_id) DO NOTHING;
+
+-- Keep the primary paper attached for clients that only set chat_sessions.paper_id
+CREATE OR REPLACE FUNCTION attach_primary_session_paper()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.paper_id IS NOT NULL THEN
+    INSERT INTO chat_session_papers (session_id, paper_id)
+    VALUES (NEW.id, NEW.paper_id)
+    ON CONFLICT (session_id, paper_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS attach_primary_session_paper ON chat_sessions;
+CREATE TRIGGER attach_primary_session_paper
+  AFTER INSERT ON chat_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION attach_primary_session_paper();
+
+-- Enable Row Level Security
+ALTER TABLE chat_session_papers ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users can manage papers attached to their own sessions
+CREATE POLICY "Users can manage their own session papers"
+ON chat_session_papers
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM chat_sessions
+    WHERE chat_sessions.id = chat_session_papers.session_id
+      AND chat_sessions.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM chat_sessions
+    WHERE chat_sessions.id = chat_session_papers.session_id
+      AND chat_sessions.user_id = auth.uid()
+  )
+);
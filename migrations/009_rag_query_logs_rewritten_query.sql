@@ -0,0 +1,3 @@
+-- Record the standalone question retrieval actually ran with when a follow-up
+-- was rewritten using the conversation history
+ALTER TABLE rag_query_logs ADD COLUMN IF NOT EXISTS rewritten_query TEXT;
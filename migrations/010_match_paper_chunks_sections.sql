@@ -0,0 +1,54 @@
+-- Expose each chunk's section label (paper_chunks_metadata.chunk_type) from
+-- match_paper_chunks_optimized and allow filtering on it
+-- Supported filter keys: paper_id, paper_ids, include_chunk_types, exclude_chunk_types
+-- (the last two are JSON arrays of chunk types; chunks without metadata count as 'body')
+
+-- The return type changes, so the old signature has to go first
+DROP FUNCTION IF EXISTS match_paper_chunks_optimized(vector, INT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  page_no INT,
+  content TEXT,
+  chunk_type TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.page_no,
+    pc.content,
+    COALESCE(m.chunk_type, 'body') AS chunk_type,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  LEFT JOIN LATERAL (
+    SELECT pcm.chunk_type
+    FROM paper_chunks_metadata pcm
+    WHERE pcm.chunk_id = pc.id
+    LIMIT 1
+  ) m ON TRUE
+  WHERE pc.embedding IS NOT NULL
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+    AND (
+      filter->'paper_ids' IS NULL
+      OR pc.paper_id IN (SELECT jsonb_array_elements_text(filter->'paper_ids')::UUID)
+    )
+    AND (
+      filter->'include_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') IN (SELECT jsonb_array_elements_text(filter->'include_chunk_types'))
+    )
+    AND (
+      filter->'exclude_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') NOT IN (SELECT jsonb_array_elements_text(filter->'exclude_chunk_types'))
+    )
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,87 @@
+-- Parent spans for small-to-big retrieval: paper_chunks are small children used
+-- for matching, each pointing at the larger span (a page or part of one) that is
+-- sent to the model instead
+CREATE TABLE IF NOT EXISTS paper_chunk_parents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  parent_index INT NOT NULL,
+  page_no INT,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_chunk_parents_paper_id ON paper_chunk_parents(paper_id);
+
+-- Chunks ingested before parents existed keep a NULL parent and are used as-is
+ALTER TABLE paper_chunks
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES paper_chunk_parents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_paper_chunks_parent_id ON paper_chunks(parent_id);
+
+-- Enable Row Level Security
+ALTER TABLE paper_chunk_parents ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users can read parent spans of their own papers
+CREATE POLICY "Users can view their own paper chunk parents"
+ON paper_chunk_parents
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM papers
+    WHERE papers.id = paper_chunk_parents.paper_id
+      AND papers.user_id = auth.uid()
+  )
+);
+
+-- Return parent_id from match_paper_chunks_optimized so callers can expand
+-- matches to their parent span. Filter keys are unchanged.
+DROP FUNCTION IF EXISTS match_paper_chunks_optimized(vector, INT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  parent_id UUID,
+  page_no INT,
+  content TEXT,
+  chunk_type TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.parent_id,
+    pc.page_no,
+    pc.content,
+    COALESCE(m.chunk_type, 'body') AS chunk_type,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  LEFT JOIN LATERAL (
+    SELECT pcm.chunk_type
+    FROM paper_chunks_metadata pcm
+    WHERE pcm.chunk_id = pc.id
+    LIMIT 1
+  ) m ON TRUE
+  WHERE pc.embedding IS NOT NULL
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+    AND (
+      filter->'paper_ids' IS NULL
+      OR pc.paper_id IN (SELECT jsonb_array_elements_text(filter->'paper_ids')::UUID)
+    )
+    AND (
+      filter->'include_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') IN (SELECT jsonb_array_elements_text(filter->'include_chunk_types'))
+    )
+    AND (
+      filter->'exclude_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') NOT IN (SELECT jsonb_array_elements_text(filter->'exclude_chunk_types'))
+    )
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
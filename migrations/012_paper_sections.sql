@@ -0,0 +1,36 @@
+-- Section tree reconstructed from each paper's headings at ingestion
+CREATE TABLE IF NOT EXISTS paper_sections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  parent_section_id UUID REFERENCES paper_sections(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  level INT NOT NULL,
+  number TEXT,
+  title TEXT NOT NULL,
+  page_no INT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_sections_paper_id ON paper_sections(paper_id, position);
+
+-- Every chunk records the section it falls in; chunk_type is derived from it
+ALTER TABLE paper_chunks_metadata
+ADD COLUMN IF NOT EXISTS section_id UUID REFERENCES paper_sections(id) ON DELETE SET NULL;
+
+ALTER TABLE paper_chunks_metadata
+ADD COLUMN IF NOT EXISTS section_path TEXT[];
+
+-- Enable Row Level Security
+ALTER TABLE paper_sections ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users can read the outline of their own papers
+CREATE POLICY "Users can view their own paper sections"
+ON paper_sections
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM papers
+    WHERE papers.id = paper_sections.paper_id
+      AND papers.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,63 @@
+-- Chunks record the last page they cover; page_no stays the first. A chunk
+-- that continues onto the next page has end_page_no > page_no. Chunks ingested
+-- before this column existed leave it NULL and count as single-page.
+ALTER TABLE paper_chunks
+ADD COLUMN IF NOT EXISTS end_page_no INT;
+
+-- Citations keep the cited chunk's full page range
+ALTER TABLE message_citations
+ADD COLUMN IF NOT EXISTS end_page_no INT;
+
+-- Return end_page_no from match_paper_chunks_optimized. Filter keys are unchanged.
+DROP FUNCTION IF EXISTS match_paper_chunks_optimized(vector, INT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  parent_id UUID,
+  page_no INT,
+  end_page_no INT,
+  content TEXT,
+  chunk_type TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.parent_id,
+    pc.page_no,
+    COALESCE(pc.end_page_no, pc.page_no) AS end_page_no,
+    pc.content,
+    COALESCE(m.chunk_type, 'body') AS chunk_type,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  LEFT JOIN LATERAL (
+    SELECT pcm.chunk_type
+    FROM paper_chunks_metadata pcm
+    WHERE pcm.chunk_id = pc.id
+    LIMIT 1
+  ) m ON TRUE
+  WHERE pc.embedding IS NOT NULL
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+    AND (
+      filter->'paper_ids' IS NULL
+      OR pc.paper_id IN (SELECT jsonb_array_elements_text(filter->'paper_ids')::UUID)
+    )
+    AND (
+      filter->'include_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') IN (SELECT jsonb_array_elements_text(filter->'include_chunk_types'))
+    )
+    AND (
+      filter->'exclude_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') NOT IN (SELECT jsonb_array_elements_text(filter->'exclude_chunk_types'))
+    )
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,70 @@
+-- Provenance for citation highlighting. char_start/char_end are offsets into
+-- the paper's extracted text (pages joined by a blank line). page_spans holds
+-- one {page, start, end} entry per page the chunk covers, counting only
+-- non-whitespace characters of that page so viewers that break lines
+-- differently still land on the same passage. Older chunks leave all three NULL.
+ALTER TABLE paper_chunks
+ADD COLUMN IF NOT EXISTS char_start INT,
+ADD COLUMN IF NOT EXISTS char_end INT,
+ADD COLUMN IF NOT EXISTS page_spans JSONB;
+
+-- Return the provenance columns from match_paper_chunks_optimized. Filter keys
+-- are unchanged.
+DROP FUNCTION IF EXISTS match_paper_chunks_optimized(vector, INT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  parent_id UUID,
+  page_no INT,
+  end_page_no INT,
+  char_start INT,
+  char_end INT,
+  page_spans JSONB,
+  content TEXT,
+  chunk_type TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.parent_id,
+    pc.page_no,
+    COALESCE(pc.end_page_no, pc.page_no) AS end_page_no,
+    pc.char_start,
+    pc.char_end,
+    pc.page_spans,
+    pc.content,
+    COALESCE(m.chunk_type, 'body') AS chunk_type,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  LEFT JOIN LATERAL (
+    SELECT pcm.chunk_type
+    FROM paper_chunks_metadata pcm
+    WHERE pcm.chunk_id = pc.id
+    LIMIT 1
+  ) m ON TRUE
+  WHERE pc.embedding IS NOT NULL
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+    AND (
+      filter->'paper_ids' IS NULL
+      OR pc.paper_id IN (SELECT jsonb_array_elements_text(filter->'paper_ids')::UUID)
+    )
+    AND (
+      filter->'include_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') IN (SELECT jsonb_array_elements_text(filter->'include_chunk_types'))
+    )
+    AND (
+      filter->'exclude_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') NOT IN (SELECT jsonb_array_elements_text(filter->'exclude_chunk_types'))
+    )
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
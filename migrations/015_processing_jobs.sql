@@ -0,0 +1,74 @@
+-- Persistent queue for document processing. Upload routes enqueue a job and
+-- return; a server-side worker claims jobs, retries transient failures with
+-- backoff and reclaims jobs whose worker stopped sending heartbeats
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  file_type TEXT NOT NULL DEFAULT 'pdf',
+  -- Valid values: 'queued', 'running', 'completed', 'failed', 'cancelled'
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_due ON processing_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_paper_id ON processing_jobs(paper_id, created_at DESC);
+
+-- At most one active job per paper
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_active_paper
+ON processing_jobs(paper_id)
+WHERE status IN ('queued', 'running');
+
+-- Claims the next due job for a worker. Running jobs whose heartbeat is older
+-- than the lock timeout belong to a worker that died and are claimed again;
+-- SKIP LOCKED lets several workers poll at once.
+CREATE OR REPLACE FUNCTION claim_processing_job(
+  worker_id TEXT,
+  lock_timeout_seconds INT DEFAULT 600
+)
+RETURNS SETOF processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE processing_jobs AS jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_by = worker_id,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE jobs.id = (
+    SELECT candidate.id
+    FROM processing_jobs AS candidate
+    WHERE (candidate.status = 'queued' AND candidate.run_at <= NOW())
+       OR (candidate.status = 'running'
+           AND candidate.locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+    ORDER BY candidate.run_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users can see the jobs of their own papers; only the service role writes
+CREATE POLICY "Users can view their own processing jobs"
+ON processing_jobs
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM papers
+    WHERE papers.id = processing_jobs.paper_id
+      AND papers.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,35 @@
+-- Live processing progress: the pipeline records its current stage and an
+-- estimate of the time left next to the chunk counts, and clients subscribe
+-- to changes through Supabase Realtime instead of polling
+
+-- Valid values: 'queued', 'extracting', 'chunking', 'embedding', 'storing',
+-- 'completed', 'failed'
+ALTER TABLE document_processing_status ADD COLUMN IF NOT EXISTS stage TEXT;
+
+ALTER TABLE document_processing_status ADD COLUMN IF NOT EXISTS eta_seconds INT;
+
+-- Enable Row Level Security
+ALTER TABLE document_processing_status ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users can follow the progress of their own papers. Realtime only
+-- delivers rows the subscriber can select.
+DROP POLICY IF EXISTS "Users can view their own processing status" ON document_processing_status;
+
+CREATE POLICY "Users can view their own processing status"
+ON document_processing_status
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM papers
+    WHERE papers.id = document_processing_status.paper_id
+      AND papers.user_id = auth.uid()
+  )
+);
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE document_processing_status;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
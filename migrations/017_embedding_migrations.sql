@@ -0,0 +1,124 @@
+-- Record which embedding model produced each chunk vector, and stage vectors
+-- from a new model next to the live ones so a library can be re-embedded
+-- without downtime. Staged vectors replace the live ones only once every
+-- chunk in scope has one.
+ALTER TABLE paper_chunks
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedding_dimensions INT,
+ADD COLUMN IF NOT EXISTS staged_embedding vector(1536),
+ADD COLUMN IF NOT EXISTS staged_embedding_model TEXT;
+
+-- Every ingestion path has embedded with text-embedding-3-small at 1536
+-- dimensions; the column type rules out anything else
+UPDATE paper_chunks
+SET embedding_model = 'text-embedding-3-small', embedding_dimensions = 1536
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_paper_chunks_embedding_model ON paper_chunks(embedding_model);
+
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider TEXT NOT NULL,
+  target_model TEXT NOT NULL,
+  target_dimensions INT NOT NULL,
+  -- NULL re-embeds every paper
+  paper_ids UUID[],
+  -- Valid values: 'running', 'staged', 'completed', 'failed', 'cancelled'
+  status TEXT NOT NULL DEFAULT 'running',
+  total_chunks INT NOT NULL DEFAULT 0,
+  processed_chunks INT NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Bumped after every batch; a running migration that stops updating was
+  -- interrupted and can be resumed
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- One migration at a time; two would stage over each other
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_migrations_one_running
+ON embedding_migrations ((true))
+WHERE status = 'running';
+
+-- Only reachable with the service role
+ALTER TABLE embedding_migrations ENABLE ROW LEVEL SECURITY;
+
+-- Chunks in scope that still need a vector from target_model: neither live
+-- nor staged. Resuming a run starts from whatever this returns.
+CREATE OR REPLACE FUNCTION next_chunks_to_reembed(
+  target_model TEXT,
+  paper_ids UUID[] DEFAULT NULL,
+  batch_size INT DEFAULT 64
+)
+RETURNS TABLE (id UUID, content TEXT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT pc.id, pc.content
+  FROM paper_chunks pc
+  WHERE pc.embedding_model IS DISTINCT FROM target_model
+    AND pc.staged_embedding_model IS DISTINCT FROM target_model
+    AND (next_chunks_to_reembed.paper_ids IS NULL OR pc.paper_id = ANY(next_chunks_to_reembed.paper_ids))
+  ORDER BY pc.id
+  LIMIT batch_size;
+$$;
+
+CREATE OR REPLACE FUNCTION count_chunks_to_reembed(
+  target_model TEXT,
+  paper_ids UUID[] DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE sql STABLE
+AS $$
+  SELECT COUNT(*)::INT
+  FROM paper_chunks pc
+  WHERE pc.embedding_model IS DISTINCT FROM target_model
+    AND pc.staged_embedding_model IS DISTINCT FROM target_model
+    AND (count_chunks_to_reembed.paper_ids IS NULL OR pc.paper_id = ANY(count_chunks_to_reembed.paper_ids));
+$$;
+
+-- Stores a batch of staged vectors. `chunks` is a JSON array of
+-- {id, embedding} with each embedding in pgvector text form ("[0.1,...]").
+CREATE OR REPLACE FUNCTION stage_chunk_embeddings(target_model TEXT, chunks JSONB)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  staged INT;
+BEGIN
+  UPDATE paper_chunks pc
+  SET staged_embedding = (c->>'embedding')::vector,
+      staged_embedding_model = target_model
+  FROM jsonb_array_elements(chunks) c
+  WHERE pc.id = (c->>'id')::UUID;
+
+  GET DIAGNOSTICS staged = ROW_COUNT;
+  RETURN staged;
+END;
+$$;
+
+-- Swaps staged vectors in for the live ones in a single statement, so
+-- queries never see a half-migrated library
+CREATE OR REPLACE FUNCTION promote_staged_embeddings(
+  target_model TEXT,
+  target_dimensions INT,
+  paper_ids UUID[] DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  promoted INT;
+BEGIN
+  UPDATE paper_chunks
+  SET embedding = staged_embedding,
+      embedding_model = target_model,
+      embedding_dimensions = target_dimensions,
+      staged_embedding = NULL,
+      staged_embedding_model = NULL
+  WHERE staged_embedding_model = target_model
+    AND (promote_staged_embeddings.paper_ids IS NULL OR paper_id = ANY(promote_staged_embeddings.paper_ids));
+
+  GET DIAGNOSTICS promoted = ROW_COUNT;
+  RETURN promoted;
+END;
+$$;
@@ -0,0 +1,19 @@
+-- Chunk embeddings keyed by model and a SHA-256 of the normalised chunk text,
+-- so reprocessing a paper or uploading the same text again reuses vectors
+-- instead of paying for them twice. Shared across users; it holds hashes and
+-- vectors, not text, and is only reachable with the service role.
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  model TEXT NOT NULL,
+  dimensions INT NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedding vector(1536) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (model, dimensions, content_hash)
+);
+
+ALTER TABLE embedding_cache ENABLE ROW LEVEL SECURITY;
+
+-- Cache effectiveness for each paper's latest processing run
+ALTER TABLE document_processing_status
+ADD COLUMN IF NOT EXISTS embedding_cache_hits INT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS embedding_cache_misses INT DEFAULT 0;
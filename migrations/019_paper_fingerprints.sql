@@ -0,0 +1,9 @@
+-- Duplicate detection. file_hash is the SHA-256 of the uploaded file and
+-- text_minhash a MinHash signature of its extracted text, both recorded at
+-- ingestion; papers processed before this migration have neither until they
+-- are reprocessed.
+ALTER TABLE papers
+ADD COLUMN IF NOT EXISTS file_hash TEXT,
+ADD COLUMN IF NOT EXISTS text_minhash INT[];
+
+CREATE INDEX IF NOT EXISTS idx_papers_user_file_hash ON papers(user_id, file_hash);
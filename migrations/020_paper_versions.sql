@@ -0,0 +1,147 @@
+-- Paper versions. Replacing a paper's file adds a version instead of a new
+-- paper, so chat sessions stay attached. Chunks, parent spans and sections
+-- belong to the version they were extracted from; retrieval only searches the
+-- paper's current version, while older chunks stay for the citations that
+-- point at them.
+CREATE TABLE IF NOT EXISTS paper_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  version_number INT NOT NULL,
+  storage_path TEXT,
+  file_hash TEXT,
+  page_count INT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (paper_id, version_number)
+);
+
+-- The version retrieval searches. Only moves to a new version once that
+-- version has been ingested.
+ALTER TABLE papers
+ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES paper_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE paper_chunks
+ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES paper_versions(id) ON DELETE CASCADE;
+
+ALTER TABLE paper_chunk_parents
+ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES paper_versions(id) ON DELETE CASCADE;
+
+ALTER TABLE paper_sections
+ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES paper_versions(id) ON DELETE CASCADE;
+
+-- The file a job ingests; NULL is the paper's current version
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES paper_versions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_paper_chunks_version_id ON paper_chunks(version_id);
+CREATE INDEX IF NOT EXISTS idx_paper_chunk_parents_version_id ON paper_chunk_parents(version_id);
+CREATE INDEX IF NOT EXISTS idx_paper_sections_version_id ON paper_sections(version_id, position);
+
+-- Everything ingested so far becomes version 1 of its paper
+INSERT INTO paper_versions (paper_id, version_number, storage_path, file_hash, page_count)
+SELECT p.id, 1, p.storage_path, p.file_hash, p.page_count
+FROM papers p
+WHERE p.current_version_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM paper_versions v WHERE v.paper_id = p.id);
+
+UPDATE papers p
+SET current_version_id = v.id
+FROM paper_versions v
+WHERE v.paper_id = p.id AND v.version_number = 1 AND p.current_version_id IS NULL;
+
+UPDATE paper_chunks pc
+SET version_id = p.current_version_id
+FROM papers p
+WHERE p.id = pc.paper_id AND pc.version_id IS NULL;
+
+UPDATE paper_chunk_parents pcp
+SET version_id = p.current_version_id
+FROM papers p
+WHERE p.id = pcp.paper_id AND pcp.version_id IS NULL;
+
+UPDATE paper_sections ps
+SET version_id = p.current_version_id
+FROM papers p
+WHERE p.id = ps.paper_id AND ps.version_id IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE paper_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users can read the versions of their own papers
+CREATE POLICY "Users can view their own paper versions"
+ON paper_versions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM papers
+    WHERE papers.id = paper_versions.paper_id
+      AND papers.user_id = auth.uid()
+  )
+);
+
+-- Only search each paper's current version, and return the version a match
+-- came from. Filter keys are unchanged.
+DROP FUNCTION IF EXISTS match_paper_chunks_optimized(vector, INT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  parent_id UUID,
+  version_id UUID,
+  version_number INT,
+  page_no INT,
+  end_page_no INT,
+  char_start INT,
+  char_end INT,
+  page_spans JSONB,
+  content TEXT,
+  chunk_type TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.parent_id,
+    pc.version_id,
+    pv.version_number,
+    pc.page_no,
+    COALESCE(pc.end_page_no, pc.page_no) AS end_page_no,
+    pc.char_start,
+    pc.char_end,
+    pc.page_spans,
+    pc.content,
+    COALESCE(m.chunk_type, 'body') AS chunk_type,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  JOIN papers p ON p.id = pc.paper_id
+  LEFT JOIN paper_versions pv ON pv.id = pc.version_id
+  LEFT JOIN LATERAL (
+    SELECT pcm.chunk_type
+    FROM paper_chunks_metadata pcm
+    WHERE pcm.chunk_id = pc.id
+    LIMIT 1
+  ) m ON TRUE
+  WHERE pc.embedding IS NOT NULL
+    AND pc.version_id IS NOT DISTINCT FROM p.current_version_id
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+    AND (
+      filter->'paper_ids' IS NULL
+      OR pc.paper_id IN (SELECT jsonb_array_elements_text(filter->'paper_ids')::UUID)
+    )
+    AND (
+      filter->'include_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') IN (SELECT jsonb_array_elements_text(filter->'include_chunk_types'))
+    )
+    AND (
+      filter->'exclude_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') NOT IN (SELECT jsonb_array_elements_text(filter->'exclude_chunk_types'))
+    )
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
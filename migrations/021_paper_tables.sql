@@ -0,0 +1,108 @@
+-- Tables detected in a paper's PDF, kept as rows and columns with their
+-- caption and page. Each table is also embedded as text: its chunks in
+-- paper_chunks point back at it through table_id.
+CREATE TABLE IF NOT EXISTS paper_tables (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  paper_id UUID NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES paper_versions(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  page_no INT NOT NULL,
+  label TEXT, -- "Table 2", from the caption
+  caption TEXT,
+  columns JSONB NOT NULL DEFAULT '[]', -- header cells
+  rows JSONB NOT NULL DEFAULT '[]', -- data rows, one array of cells each
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_tables_version_id ON paper_tables(version_id, position);
+CREATE INDEX IF NOT EXISTS idx_paper_tables_paper_id ON paper_tables(paper_id);
+
+ALTER TABLE paper_chunks
+ADD COLUMN IF NOT EXISTS table_id UUID REFERENCES paper_tables(id) ON DELETE CASCADE;
+
+-- Enable Row Level Security
+ALTER TABLE paper_tables ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users can read the tables of their own papers
+CREATE POLICY "Users can view their own paper tables"
+ON paper_tables
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM papers
+    WHERE papers.id = paper_tables.paper_id
+      AND papers.user_id = auth.uid()
+  )
+);
+
+-- Also return the table a match was rendered from. Filter keys are unchanged.
+DROP FUNCTION IF EXISTS match_paper_chunks_optimized(vector, INT, JSONB);
+
+CREATE OR REPLACE FUNCTION match_paper_chunks_optimized(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 5,
+  filter JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  paper_id UUID,
+  parent_id UUID,
+  version_id UUID,
+  version_number INT,
+  page_no INT,
+  end_page_no INT,
+  char_start INT,
+  char_end INT,
+  page_spans JSONB,
+  table_id UUID,
+  table_label TEXT,
+  content TEXT,
+  chunk_type TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    pc.id,
+    pc.paper_id,
+    pc.parent_id,
+    pc.version_id,
+    pv.version_number,
+    pc.page_no,
+    COALESCE(pc.end_page_no, pc.page_no) AS end_page_no,
+    pc.char_start,
+    pc.char_end,
+    pc.page_spans,
+    pc.table_id,
+    pt.label AS table_label,
+    pc.content,
+    COALESCE(m.chunk_type, 'body') AS chunk_type,
+    1 - (pc.embedding <=> query_embedding) AS similarity
+  FROM paper_chunks pc
+  JOIN papers p ON p.id = pc.paper_id
+  LEFT JOIN paper_versions pv ON pv.id = pc.version_id
+  LEFT JOIN paper_tables pt ON pt.id = pc.table_id
+  LEFT JOIN LATERAL (
+    SELECT pcm.chunk_type
+    FROM paper_chunks_metadata pcm
+    WHERE pcm.chunk_id = pc.id
+    LIMIT 1
+  ) m ON TRUE
+  WHERE pc.embedding IS NOT NULL
+    AND pc.version_id IS NOT DISTINCT FROM p.current_version_id
+    AND (filter->>'paper_id' IS NULL OR pc.paper_id = (filter->>'paper_id')::UUID)
+    AND (
+      filter->'paper_ids' IS NULL
+      OR pc.paper_id IN (SELECT jsonb_array_elements_text(filter->'paper_ids')::UUID)
+    )
+    AND (
+      filter->'include_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') IN (SELECT jsonb_array_elements_text(filter->'include_chunk_types'))
+    )
+    AND (
+      filter->'exclude_chunk_types' IS NULL
+      OR COALESCE(m.chunk_type, 'body') NOT IN (SELECT jsonb_array_elements_text(filter->'exclude_chunk_types'))
+    )
+  ORDER BY pc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
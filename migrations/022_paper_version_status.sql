@@ -0,0 +1,14 @@
+-- Processing state of each paper version. papers.processing_status describes
+-- the current version only, so a replacement that is still being ingested, or
+-- failed, does not change how the paper shows up; its state is kept here.
+
+-- Valid values: 'pending', 'processing', 'completed', 'failed'
+ALTER TABLE paper_versions ADD COLUMN IF NOT EXISTS processing_status TEXT;
+ALTER TABLE paper_versions ADD COLUMN IF NOT EXISTS processing_error TEXT;
+
+-- Versions ingested before this migration are the ones papers report on
+UPDATE paper_versions v
+SET processing_status = p.processing_status,
+    processing_error = p.processing_error
+FROM papers p
+WHERE p.current_version_id = v.id AND v.processing_status IS NULL;
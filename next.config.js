@@ -36,7 +36,7 @@ const nextConfig = {
   },
 
   // Server external packages
-  serverExternalPackages: ['pdf-parse', 'sharp'],
+  serverExternalPackages: ['pdf-parse', 'sharp', '@huggingface/transformers', 'onnxruntime-node'],
 
   // Image optimization
   images: {
@@ -23,7 +23,7 @@ declare module 'pdf-parse' {
   }
 
   interface Options {
-    pagerender?: (pageData: any) => string
+    pagerender?: (pageData: any) => string | Promise<string>
     max?: number
     version?: string
   }
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+      // The package entry reads a sample PDF when it is not required by
+      // another CommonJS module, which is never the case under Vite
+      'pdf-parse': 'pdf-parse/lib/pdf-parse.js',
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts'],
+  },
+});